@@ -1,5 +1,23 @@
-import { useEffect, useMemo, useRef, useState, ReactNode } from "react";
-import { Routes, Route, NavLink, HashRouter } from "react-router-dom";
+import {
+  Fragment,
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useReducer,
+  useRef,
+  useState,
+  ReactNode,
+} from "react";
+import {
+  Routes,
+  Route,
+  NavLink,
+  Link,
+  HashRouter,
+  useSearchParams,
+} from "react-router-dom";
 import { motion, AnimatePresence } from "framer-motion";
 import {
   Trophy,
@@ -11,10 +29,25 @@ import {
   Dice5,
   CheckCircle2,
   XCircle,
+  RotateCcw,
+  ChevronDown,
+  Pencil,
+  Trash2,
+  Plus,
+  Download,
+  Upload,
+  Users,
+  X,
+  Timer,
+  Combine,
+  Undo2,
+  Loader2,
 } from "lucide-react";
 import {
   BarChart,
   Bar,
+  LineChart,
+  Line,
   XAxis,
   YAxis,
   Tooltip,
@@ -22,135 +55,259 @@ import {
   CartesianGrid,
   Legend,
 } from "recharts";
+import { TYPES, type ExerciseOf, type ExerciseType } from "./exercise";
+import { checkAnswer, expectedAnswer, type CheckResult } from "./checkers";
+import { createRng, randomSeed } from "./random";
+import {
+  DIFFICULTIES,
+  DIFFICULTY_CONFIG,
+  GENERATOR_VERSION,
+  exerciseFor,
+  generateExercise,
+  generatorVersionOf,
+  isDifficulty,
+  type Difficulty,
+} from "./generator";
+import { pickWeighted, rampDifficulty, recommendTopics } from "./adaptive";
+import {
+  REVIEW_INTERVALS_DAYS,
+  dayKey,
+  dueReviews,
+  loadStats,
+  removeStats,
+  saveStats,
+  statsReducer,
+  type ReviewItem,
+  type Stats,
+  type StatsAction,
+} from "./stats";
+import {
+  AVATARS,
+  PROFILES_KEY,
+  activeProfile,
+  addProfile,
+  loadProfiles,
+  removeProfile,
+  saveProfiles,
+  statsKeyFor,
+  switchProfile,
+  updateProfile,
+  type ProfilesState,
+} from "./profiles";
+import {
+  exportFileName,
+  exportProgress,
+  mergeStats,
+  parseProgressFile,
+  summarizeChanges,
+  type ImportedProgress,
+} from "./transfer";
+import {
+  buildClassReport,
+  classReportCsv,
+  reportFileName,
+  type StudentProgress,
+} from "./report";
+import {
+  ACHIEVEMENTS,
+  achievementById,
+  isUnlocked,
+  medalTitle,
+  newlyUnlocked,
+  type Achievement,
+} from "./achievements";
+import {
+  DAILY_GOALS,
+  FREEZE_EVERY_DAYS,
+  REWARDS,
+  levelInfo,
+  streakView,
+} from "./progression";
+import {
+  CHALLENGE_DURATIONS,
+  answerPoints,
+  challengeKey,
+  type AnswerPoints,
+  type ChallengeDuration,
+  type ChallengeRun,
+} from "./challenge";
+import {
+  MAX_FACTOR_DIGITS,
+  MAX_POWER_DIGITS,
+  digitSum,
+  divisibilityInfo,
+  divisorCount,
+  divisorCountFormula,
+  divisorsFromFactors,
+  euclidSteps,
+  formatFactorization,
+  gcd,
+  isPrime,
+  lcm,
+  parseWholeNumber,
+  powBig,
+  powerDigitCount,
+  sieveEvents,
+  simultaneousFactorization,
+  smallestFactor,
+  type EuclidStep,
+  type SieveEvent,
+} from "./math";
+import {
+  DIVISIBILITY_DIVISORS,
+  divisibilityRule,
+  type Divisor,
+} from "./divisibility";
+import {
+  createMathClient,
+  type MathClient,
+  type MathJob,
+  type MathJobResult,
+} from "./mathJobs";
+import {
+  describeStep,
+  longDivision,
+  longDivisionSteps,
+  type LongDivision,
+  type LongDivisionStep,
+} from "./longDivision";
+import {
+  isBetterRun,
+  primeHuntAccuracy,
+  primeHuntScore,
+  type PrimeHuntRun,
+  type PrimeHuntScore,
+} from "./primeHunt";
+import {
+  accuracyOverTime,
+  activityCalendar,
+  xpOverTime,
+  type Period,
+} from "./history";
 
 // ----------------------------------------------
-// Utilidades de Matemática
+// Perfis (quem está usando o aparelho)
 // ----------------------------------------------
-const isPrime = (n: number): boolean => {
-  if (n < 2) return false;
-  if (n === 2) return true;
-  if (n % 2 === 0) return false;
-  for (let d = 3; d * d <= n; d += 2) {
-    if (n % d === 0) return false;
-  }
-  return true;
-};
+interface ProfilesContextValue {
+  profiles: ProfilesState;
+  updateProfiles: (update: (state: ProfilesState) => ProfilesState) => void;
+}
+const ProfilesContext = createContext<ProfilesContextValue | null>(null);
 
-const smallestFactor = (n: number): number | null => {
-  if (n < 2) return null;
-  if (n % 2 === 0) return 2;
-  for (let d = 3; d * d <= n; d += 2) {
-    if (n % d === 0) return d;
-  }
-  return null; // primo
-};
+const ProfilesProvider = ({ children }: { children: ReactNode }) => {
+  const [profiles, setProfiles] = useState(() => loadProfiles());
 
-const primeFactors = (n: number): number[] => {
-  const factors: number[] = [];
-  let x = n;
-  let d = 2;
-  while (x >= 2 && d * d <= x) {
-    while (x % d === 0) {
-      factors.push(d);
-      x = x / d;
-    }
-    d = d === 2 ? 3 : d + 2; // 2,3,5,7,...
-  }
-  if (x > 1) factors.push(x);
-  return factors;
-};
+  useEffect(() => {
+    saveProfiles(profiles);
+  }, [profiles]);
 
-const divisibilityInfo = (n: number) => {
-  const s = String(n);
-  const sumDigits = s
-    .split("")
-    .filter((c) => /\d/.test(c))
-    .reduce((a, b) => a + Number(b), 0);
-  return {
-    by2: n % 2 === 0,
-    by3: sumDigits % 3 === 0,
-    by5: n % 5 === 0,
-    by6: n % 6 === 0,
-    by10: n % 10 === 0,
-  };
-};
+  useEffect(() => {
+    const onStorage = (e: StorageEvent) => {
+      if (e.key === PROFILES_KEY) setProfiles(loadProfiles());
+    };
+    window.addEventListener("storage", onStorage);
+    return () => window.removeEventListener("storage", onStorage);
+  }, []);
 
-const normalizeFactorsInput = (text: string) => {
-  const cleaned = String(text)
-    .toLowerCase()
-    .replace(/[×xX*·]/g, " ") // x, ×, *, ponto meio
-    .replace(/[;,]/g, " ") // vírgulas e ;
-    .replace(/\s+/g, " ") // múltiplos espaços
-    .trim();
-  if (!cleaned) return [];
-  return cleaned
-    .split(" ")
-    .map((t) => Number(t))
-    .filter((n) => Number.isFinite(n));
+  const value = useMemo(
+    () => ({ profiles, updateProfiles: setProfiles }),
+    [profiles]
+  );
+  return (
+    <ProfilesContext.Provider value={value}>
+      {children}
+    </ProfilesContext.Provider>
+  );
 };
 
-const multisetEqual = (a: number[], b: number[]) => {
-  if (a.length !== b.length) return false;
-  const aa = [...a].sort((x, y) => x - y);
-  const bb = [...b].sort((x, y) => x - y);
-  return aa.every((v, i) => v === bb[i]);
+const useProfiles = () => {
+  const ctx = useContext(ProfilesContext);
+  if (!ctx) {
+    throw new Error("useProfiles precisa estar dentro de ProfilesProvider");
+  }
+  return ctx;
 };
 
-const productOf = (arr: number[]) => arr.reduce((acc, v) => acc * v, 1);
-
 // ----------------------------------------------
-// Persistência (localStorage) — rastreamento simples
+// Store de Stats (um só para o app inteiro, por perfil)
 // ----------------------------------------------
-interface Stats {
-  xp: number;
-  medals: string[];
-  bestFiveScore: number;
-  sessions: number;
-  totalQuestions: number;
-  correctQuestions: number;
-  perTopic: Record<string, { correct: number; wrong: number }>;
-  achievements: Record<string, string>;
-  primeHuntCompleted: boolean;
+interface StatsContextValue {
+  stats: Stats;
+  dispatch: React.Dispatch<StatsAction>;
+  unlocks: Achievement[]; // conquistas recém-desbloqueadas (avisos na tela)
+  dismissUnlock: (id: string) => void;
 }
+const StatsContext = createContext<StatsContextValue | null>(null);
 
-const STORAGE_KEY = "mathTutorStatsV1";
-const defaultStats: Stats = {
-  xp: 0,
-  medals: [],
-  bestFiveScore: 0,
-  sessions: 0,
-  totalQuestions: 0,
-  correctQuestions: 0,
-  perTopic: {
-    divisibilidade: { correct: 0, wrong: 0 },
-    primos: { correct: 0, wrong: 0 },
-    fatoracao: { correct: 0, wrong: 0 },
-    potenciacao: { correct: 0, wrong: 0 },
-    resto: { correct: 0, wrong: 0 },
-  },
-  achievements: {},
-  primeHuntCompleted: false,
-};
+interface StatsProviderProps {
+  storageKey: string;
+  children: ReactNode;
+}
+// Trocar de perfil remonta o provider (key), recarregando os dados
+const StatsProvider = ({ storageKey, children }: StatsProviderProps) => {
+  const [stats, dispatch] = useReducer(statsReducer, undefined, () =>
+    loadStats(localStorage, storageKey)
+  );
 
-const loadStats = (): Stats => {
-  try {
-    const s = localStorage.getItem(STORAGE_KEY);
-    return s ? { ...defaultStats, ...JSON.parse(s) } : { ...defaultStats };
-  } catch {
-    return { ...defaultStats };
-  }
+  useEffect(() => {
+    saveStats(stats, localStorage, storageKey);
+  }, [stats, storageKey]);
+
+  // Outra aba gravou: recarrega (o evento só dispara em outras abas)
+  useEffect(() => {
+    const onStorage = (e: StorageEvent) => {
+      if (e.key === storageKey) {
+        dispatch({
+          type: "replace",
+          stats: loadStats(localStorage, storageKey),
+        });
+      }
+    };
+    window.addEventListener("storage", onStorage);
+    return () => window.removeEventListener("storage", onStorage);
+  }, [storageKey]);
+
+  // Conquistas: as regras cumpridas viram medalha e aviso na tela,
+  // não importa em qual página a mudança aconteceu
+  const [unlocks, setUnlocks] = useState<Achievement[]>([]);
+  useEffect(() => {
+    const unlocked = newlyUnlocked(stats);
+    if (unlocked.length === 0) return;
+    const at = new Date().toISOString();
+    for (const a of unlocked) dispatch({ type: "awardMedal", medal: a.id, at });
+    setUnlocks((prev) => [
+      ...prev,
+      ...unlocked.filter((a) => !prev.includes(a)),
+    ]);
+  }, [stats]);
+
+  const dismissUnlock = useCallback(
+    (id: string) => setUnlocks((prev) => prev.filter((a) => a.id !== id)),
+    []
+  );
+
+  const value = useMemo(
+    () => ({ stats, dispatch, unlocks, dismissUnlock }),
+    [stats, unlocks, dismissUnlock]
+  );
+  return (
+    <StatsContext.Provider value={value}>{children}</StatsContext.Provider>
+  );
 };
 
-const saveStats = (stats: Stats): void => {
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(stats));
+const useStats = () => {
+  const ctx = useContext(StatsContext);
+  if (!ctx) throw new Error("useStats precisa estar dentro de StatsProvider");
+  return ctx;
 };
 
-const awardMedal = (stats: Stats, medalId: string): Stats => {
-  if (!stats.medals.includes(medalId)) {
-    stats.medals.push(medalId);
-  }
-  stats.achievements[medalId] = new Date().toISOString();
-  return stats;
+const ActiveProfileStats = ({ children }: { children: ReactNode }) => {
+  const { activeId } = useProfiles().profiles;
+  return (
+    <StatsProvider key={activeId} storageKey={statsKeyFor(activeId)}>
+      {children}
+    </StatsProvider>
+  );
 };
 
 // ----------------------------------------------
@@ -208,17 +365,200 @@ const SectionTitle = ({ icon: Icon, title, subtitle }: SectionTitleProps) => (
   </div>
 );
 
+// Resposta ilegível (CheckResult.invalid): mostra o formato, sem contar erro
+interface FormatHintProps {
+  text: string | null;
+}
+const FormatHint = ({ text }: FormatHintProps) =>
+  text ? <p className='mt-2 text-sm text-amber-700'>{text}</p> : null;
+
+// Baixa um texto como arquivo (exportação de progresso, relatório da turma)
+const downloadFile = (text: string, fileName: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+const percentLabel = (value: number | null) =>
+  value === null ? "—" : `${Math.round(value * 100)}%`;
+
+// 83_000 → "1 min 23 s"
+const durationLabel = (ms: number) => {
+  const total = Math.round(ms / 1000);
+  const min = Math.floor(total / 60);
+  return min > 0 ? `${min} min ${total % 60} s` : `${total} s`;
+};
+
+// Passo a passo com "Próximo passo" e reprodução automática
+const STEP_MS = 800;
+
+const useStepper = (total: number, ms = STEP_MS) => {
+  const [shown, setShown] = useState(0);
+  const [playing, setPlaying] = useState(false);
+
+  useEffect(() => {
+    if (!playing) return;
+    if (shown >= total) {
+      setPlaying(false);
+      return;
+    }
+    const timer = setTimeout(() => setShown((s) => s + 1), ms);
+    return () => clearTimeout(timer);
+  }, [playing, shown, total, ms]);
+
+  return {
+    shown,
+    playing,
+    done: shown >= total,
+    next: () => setShown((s) => Math.min(total, s + 1)),
+    goTo: (index: number) => setShown(Math.max(0, Math.min(total, index))),
+    play: () => {
+      if (shown >= total) setShown(0);
+      setPlaying(true);
+    },
+    stop: () => setPlaying(false),
+    reset: () => {
+      setPlaying(false);
+      setShown(0);
+    },
+  };
+};
+
+type Stepper = ReturnType<typeof useStepper>;
+
+interface StepControlsProps {
+  stepper: Stepper;
+  onNext?: () => void; // padrão: um passo
+}
+
+const StepControls = ({
+  stepper,
+  onNext = stepper.next,
+}: StepControlsProps) => (
+  <div className='flex gap-2 flex-wrap'>
+    <Button onClick={onNext} disabled={stepper.done}>
+      Próximo passo
+    </Button>
+    {!stepper.playing ? (
+      <Button
+        className='bg-indigo-600 text-white border-indigo-600'
+        onClick={stepper.play}
+      >
+        Auto
+      </Button>
+    ) : (
+      <Button
+        className='bg-rose-600 text-white border-rose-600'
+        onClick={stepper.stop}
+      >
+        Parar
+      </Button>
+    )}
+    <Button onClick={stepper.reset}>Reiniciar</Button>
+  </div>
+);
+
+// Cálculo pesado no worker: espera o aluno parar de digitar, cancela o pedido
+// anterior e guarda o último resultado pronto
+const MATH_DEBOUNCE_MS = 300;
+
+const spawnMathWorker = () =>
+  new Worker(new URL("./math.worker.ts", import.meta.url), { type: "module" });
+
+interface MathJobState<J extends MathJob> {
+  done: { job: J; result: MathJobResult<J> } | null;
+  calculating: boolean;
+  error: string | null;
+}
+
+// job: memorizado pelo chamador (null = nada a calcular)
+const useMathJob = <J extends MathJob>(
+  job: J | null,
+  ms = MATH_DEBOUNCE_MS
+) => {
+  const clientRef = useRef<MathClient | null>(null);
+  useEffect(() => {
+    const client = createMathClient(spawnMathWorker);
+    clientRef.current = client;
+    return () => client.dispose();
+  }, []);
+
+  const [state, setState] = useState<MathJobState<J>>({
+    done: null,
+    calculating: job !== null,
+    error: null,
+  });
+  // O primeiro cálculo não espera: não há resultado antigo para mostrar
+  const hasResultRef = useRef(false);
+
+  useEffect(() => {
+    if (!job) {
+      setState((s) => ({ ...s, calculating: false, error: null }));
+      return;
+    }
+    setState((s) => ({ ...s, calculating: true, error: null }));
+    let active = true;
+    const timer = setTimeout(
+      () => {
+        clientRef.current?.run(job).then((outcome) => {
+          if (!active) return;
+          if (outcome.ok === false) {
+            if (outcome.cancelled) return;
+            // Sem resultado velho ao lado do erro: ele seria de outro número
+            setState({ done: null, calculating: false, error: outcome.error });
+            return;
+          }
+          hasResultRef.current = true;
+          setState({
+            done: { job, result: outcome.result },
+            calculating: false,
+            error: null,
+          });
+        });
+      },
+      hasResultRef.current ? ms : 0
+    );
+    return () => {
+      active = false;
+      clearTimeout(timer);
+      clientRef.current?.cancel();
+    };
+  }, [job, ms]);
+
+  return state;
+};
+
+const Calculating = () => (
+  <span className='inline-flex items-center gap-1 text-sm text-slate-500'>
+    <Loader2 className='w-4 h-4 animate-spin' /> calculando…
+  </span>
+);
+
 // ----------------------------------------------
 // Navegação (Tabs com React Router)
 // ----------------------------------------------
 const Nav = () => {
-  const tabs = [
+  const { stats } = useStats();
+  const dueCount = dueReviews(stats.reviewQueue).length;
+
+  const tabs: {
+    to: string;
+    label: string;
+    icon: React.ComponentType<{ className: string }>;
+    badge?: number;
+  }[] = [
     { to: "/", label: "Conceitos", icon: Brain },
     { to: "/primos", label: "Jogo dos Primos", icon: Star },
     { to: "/fatoracao", label: "Fatoração", icon: Sigma },
     { to: "/divisao", label: "Divisão Animada", icon: DivideIcon },
+    { to: "/mdc-mmc", label: "MDC e MMC", icon: Combine },
     { to: "/exercicios", label: "Jogo 5/5", icon: Dice5 },
+    { to: "/revisao", label: "Revisão", icon: RotateCcw, badge: dueCount },
     { to: "/progresso", label: "Progresso", icon: Trophy },
+    { to: "/turma", label: "Turma", icon: Users },
   ];
   return (
     <div className='sticky top-0 z-10 backdrop-blur supports-[backdrop-filter]:bg-white/70 bg-white/90 border-b'>
@@ -229,6 +569,9 @@ const Nav = () => {
             <span className='font-semibold text-slate-800'>
               Aritmética+ Gamificada
             </span>
+            <ProfileMenu />
+            <LevelBadge />
+            <StreakBadge />
           </div>
           <nav className='flex gap-1 overflow-x-auto'>
             {tabs.map((t) => (
@@ -244,6 +587,11 @@ const Nav = () => {
               >
                 <span className='inline-flex items-center gap-1'>
                   <t.icon className='w-4 h-4' /> {t.label}
+                  {t.badge > 0 && (
+                    <span className='ml-1 min-w-5 px-1 rounded-full bg-rose-500 text-white text-xs text-center'>
+                      {t.badge}
+                    </span>
+                  )}
                 </span>
               </NavLink>
             ))}
@@ -254,12 +602,260 @@ const Nav = () => {
   );
 };
 
+// ----------------------------------------------
+// Nível e sequência de dias (ao lado do título)
+// ----------------------------------------------
+const LEVEL_UP_MS = 3000;
+
+const LevelBadge = () => {
+  const { stats } = useStats();
+  const info = levelInfo(stats.xp);
+  // Compara com o nível do render anterior para animar a subida
+  const [shownLevel, setShownLevel] = useState(info.level);
+  const [levelUp, setLevelUp] = useState<number | null>(null);
+  if (info.level !== shownLevel) {
+    setShownLevel(info.level);
+    if (info.level > shownLevel) setLevelUp(info.level);
+  }
+
+  useEffect(() => {
+    if (levelUp === null) return;
+    const id = setTimeout(() => setLevelUp(null), LEVEL_UP_MS);
+    return () => clearTimeout(id);
+  }, [levelUp]);
+
+  return (
+    <div
+      className='relative'
+      title={`${info.xpInLevel}/${info.xpForNext} XP para o nível ${
+        info.level + 1
+      }`}
+    >
+      <motion.div
+        key={info.level}
+        initial={{ scale: 1.5 }}
+        animate={{ scale: 1 }}
+        className='px-2 py-0.5 rounded-xl border border-indigo-200 bg-indigo-50 text-xs text-indigo-700'
+      >
+        Nível {info.level}
+        <div className='h-1 mt-0.5 w-14 rounded-full bg-white overflow-hidden'>
+          <div
+            className='h-full bg-indigo-500'
+            style={{ width: `${Math.round(info.progress * 100)}%` }}
+          />
+        </div>
+      </motion.div>
+      <AnimatePresence>
+        {levelUp !== null && (
+          <motion.div
+            initial={{ opacity: 0, y: -6, scale: 0.8 }}
+            animate={{ opacity: 1, y: 0, scale: 1 }}
+            exit={{ opacity: 0 }}
+            className='absolute left-0 top-full mt-2 whitespace-nowrap rounded-xl bg-indigo-600 px-3 py-1.5 text-sm text-white shadow-lg'
+          >
+            🎉 Subiu para o nível {levelUp}!
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
+
+const StreakBadge = () => {
+  const { stats } = useStats();
+  const view = streakView(stats.streak, dayKey(new Date()));
+  const hint = view.practicedToday
+    ? "Você já praticou hoje."
+    : view.freezesAtRisk > 0
+    ? `Pratique hoje: ${
+        view.freezesAtRisk === 1
+          ? "1 proteção será usada"
+          : `${view.freezesAtRisk} proteções serão usadas`
+      }.`
+    : view.current > 0
+    ? "Pratique hoje para manter a sequência."
+    : "Responda uma questão para começar uma sequência.";
+  return (
+    <span
+      title={`${hint} Proteções: ${view.freezes}.`}
+      className={
+        "px-2 py-0.5 rounded-xl border text-xs " +
+        (view.practicedToday
+          ? "border-orange-200 bg-orange-50 text-orange-700"
+          : "border-slate-200 bg-white text-slate-500")
+      }
+    >
+      🔥 {view.current}
+      {view.freezes > 0 && ` · 🧊 ${view.freezes}`}
+    </span>
+  );
+};
+
+// ----------------------------------------------
+// Menu de perfis (ao lado do título)
+// ----------------------------------------------
+const ProfileMenu = () => {
+  const { profiles, updateProfiles } = useProfiles();
+  const [open, setOpen] = useState(false);
+  // null: lista; "novo": criando; id: editando esse perfil
+  const [editing, setEditing] = useState<string | null>(null);
+  const [name, setName] = useState("");
+  const [avatar, setAvatar] = useState<string | undefined>(undefined);
+  const active = activeProfile(profiles);
+
+  const startEdit = (id: string) => {
+    const p = profiles.profiles.find((x) => x.id === id);
+    setEditing(id);
+    setName(p?.name ?? "");
+    setAvatar(p?.avatar);
+  };
+
+  const save = () => {
+    updateProfiles((state) =>
+      editing === "novo"
+        ? addProfile(state, name, avatar)
+        : updateProfile(state, editing, name, avatar)
+    );
+    setEditing(null);
+    if (editing === "novo") setOpen(false);
+  };
+
+  const remove = (id: string) => {
+    const p = profiles.profiles.find((x) => x.id === id);
+    if (
+      !p ||
+      !window.confirm(`Apagar o perfil "${p.name}" e todo o progresso dele?`)
+    ) {
+      return;
+    }
+    removeStats(statsKeyFor(id));
+    updateProfiles((state) => removeProfile(state, id));
+  };
+
+  return (
+    <div className='relative'>
+      <button
+        onClick={() => {
+          setOpen((o) => !o);
+          setEditing(null);
+        }}
+        className='flex items-center gap-1 px-2 py-1 rounded-xl border border-slate-200 bg-white text-sm text-slate-700 hover:bg-slate-50'
+      >
+        <span>{active.avatar ?? "👤"}</span>
+        <span className='max-w-32 truncate'>{active.name}</span>
+        <ChevronDown className='w-3 h-3' />
+      </button>
+      {open && (
+        <div className='absolute left-0 mt-1 w-64 rounded-2xl border bg-white p-2 shadow-lg space-y-1 z-20'>
+          {editing === null ? (
+            <>
+              {profiles.profiles.map((p) => (
+                <div key={p.id} className='flex items-center gap-1'>
+                  <button
+                    onClick={() => {
+                      updateProfiles((state) => switchProfile(state, p.id));
+                      setOpen(false);
+                    }}
+                    className={
+                      "flex-1 text-left px-2 py-1 rounded-lg text-sm truncate " +
+                      (p.id === active.id
+                        ? "bg-indigo-50 text-indigo-700"
+                        : "hover:bg-slate-50 text-slate-700")
+                    }
+                  >
+                    {p.avatar ?? "👤"} {p.name}
+                  </button>
+                  <button
+                    title='Editar'
+                    onClick={() => startEdit(p.id)}
+                    className='p-1 rounded-lg hover:bg-slate-50 text-slate-500'
+                  >
+                    <Pencil className='w-3.5 h-3.5' />
+                  </button>
+                  <button
+                    title='Apagar'
+                    disabled={profiles.profiles.length === 1}
+                    onClick={() => remove(p.id)}
+                    className='p-1 rounded-lg hover:bg-rose-50 text-rose-500 disabled:opacity-30'
+                  >
+                    <Trash2 className='w-3.5 h-3.5' />
+                  </button>
+                </div>
+              ))}
+              <button
+                onClick={() => {
+                  setEditing("novo");
+                  setName("");
+                  setAvatar(undefined);
+                }}
+                className='w-full flex items-center gap-1 px-2 py-1 rounded-lg text-sm text-slate-700 hover:bg-slate-50 border-t'
+              >
+                <Plus className='w-3.5 h-3.5' /> Novo perfil
+              </button>
+            </>
+          ) : (
+            <div className='space-y-2 p-1'>
+              <input
+                autoFocus
+                className='border rounded-xl px-3 py-1.5 w-full text-sm'
+                placeholder='Nome do estudante'
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && save()}
+              />
+              <div className='flex flex-wrap gap-1'>
+                <button
+                  onClick={() => setAvatar(undefined)}
+                  className={
+                    "px-1.5 rounded-lg border text-sm " +
+                    (avatar === undefined
+                      ? "border-indigo-400"
+                      : "border-transparent")
+                  }
+                >
+                  👤
+                </button>
+                {AVATARS.map((a) => (
+                  <button
+                    key={a}
+                    onClick={() => setAvatar(a)}
+                    className={
+                      "px-1.5 rounded-lg border text-sm " +
+                      (avatar === a
+                        ? "border-indigo-400"
+                        : "border-transparent")
+                    }
+                  >
+                    {a}
+                  </button>
+                ))}
+              </div>
+              <div className='flex gap-2'>
+                <Button className='text-sm py-1' onClick={save}>
+                  Salvar
+                </Button>
+                <Button
+                  className='text-sm py-1'
+                  onClick={() => setEditing(null)}
+                >
+                  Cancelar
+                </Button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
 // ----------------------------------------------
 // Página: Conceitos (explicações + micro-interações)
 // ----------------------------------------------
 const ConceitosPage = () => {
   const [n, setN] = useState(12);
   const info = useMemo(() => divisibilityInfo(Number(n) || 0), [n]);
+  const [ruleBy, setRuleBy] = useState<Divisor>(4);
   const [primeTest, setPrimeTest] = useState(17);
 
   return (
@@ -273,34 +869,40 @@ const ConceitosPage = () => {
         <div className='space-y-3'>
           <p className='text-sm text-slate-700'>
             Um número é <strong>divisível</strong> por outro quando a divisão dá
-            resultado exato (resto = 0). Veja as regras rápidas abaixo e teste
-            com um número.
+            resultado exato (resto = 0). Digite um número e toque num divisor
+            para ver a regra aplicada passo a passo.
           </p>
-          <div className='flex items-center gap-2'>
-            <input
-              className='border rounded-xl px-3 py-2 w-36'
-              type='number'
-              value={n}
-              onChange={(e) => setN(Number(e.target.value))}
-            />
-            <div className='flex gap-2 flex-wrap'>
-              <Badge>2: {info.by2 ? "Sim" : "Não"}</Badge>
-              <Badge>3: {info.by3 ? "Sim" : "Não"}</Badge>
-              <Badge>5: {info.by5 ? "Sim" : "Não"}</Badge>
-              <Badge>6: {info.by6 ? "Sim" : "Não"}</Badge>
-              <Badge>10: {info.by10 ? "Sim" : "Não"}</Badge>
-            </div>
+          <input
+            className='border rounded-xl px-3 py-2 w-36'
+            type='number'
+            value={n}
+            onChange={(e) => setN(Number(e.target.value))}
+          />
+          <div className='flex gap-2 flex-wrap'>
+            {DIVISIBILITY_DIVISORS.map((d) => {
+              const yes = info[`by${d}` as const];
+              return (
+                <button
+                  key={d}
+                  onClick={() => setRuleBy(d)}
+                  className={`px-2 py-1 rounded-lg border text-sm ${
+                    yes
+                      ? "bg-emerald-50 border-emerald-200 text-emerald-700"
+                      : "bg-rose-50 border-rose-200 text-rose-700"
+                  } ${d === ruleBy ? "ring-2 ring-indigo-400" : ""}`}
+                >
+                  {d}: {yes ? "Sim" : "Não"}
+                </button>
+              );
+            })}
           </div>
-          <motion.div
-            initial={{ opacity: 0, y: 6 }}
-            animate={{ opacity: 1, y: 0 }}
-            className='text-xs text-slate-600'
-          >
-            Dica: Por 2 → é par. <br />
-            Por 3 → some os algarismos e veja se são divisíveis por 3.
-            <br />
-            Por 5 → termina em 0 ou 5.{" "}
-          </motion.div>
+          {Number.isSafeInteger(n) ? (
+            <DivisibilityExplorer key={`${n}:${ruleBy}`} n={n} by={ruleBy} />
+          ) : (
+            <p className='text-xs text-slate-500'>
+              As regras práticas valem para números inteiros.
+            </p>
+          )}
         </div>
       </Card>
 
@@ -354,25 +956,113 @@ const ConceitosPage = () => {
         />
         <PotenciacaoMini />
       </Card>
+
+      <Card>
+        <SectionTitle
+          icon={Combine}
+          title='MDC e MMC'
+          subtitle='Maior divisor comum e menor múltiplo comum'
+        />
+        <p className='text-sm text-slate-700'>
+          O <strong>MDC</strong> é o maior número que divide os dois (ex.: MDC
+          de 12 e 18 = 6). O <strong>MMC</strong> é o menor número que é
+          múltiplo dos dois (ex.: MMC de 4 e 6 = 12).
+        </p>
+        <MdcMmcMini />
+      </Card>
+    </div>
+  );
+};
+
+// Aplica a regra ao número um passo por vez, destacando os algarismos usados
+interface DivisibilityExplorerProps {
+  n: number;
+  by: Divisor;
+}
+const DivisibilityExplorer = ({ n, by }: DivisibilityExplorerProps) => {
+  const { rule, steps } = useMemo(() => divisibilityRule(n, by), [n, by]);
+  const stepper = useStepper(steps.length);
+  const current = steps[stepper.shown - 1];
+  return (
+    <div className='space-y-2 rounded-xl border bg-slate-50 p-3'>
+      <p className='text-sm text-slate-700'>
+        <strong>Por {by}:</strong> {rule}
+      </p>
+      <div className='flex gap-1 font-mono text-xl'>
+        {n < 0 && <span className='text-slate-400'>−</span>}
+        {[...String(Math.abs(n))].map((d, i) => (
+          <span
+            key={i}
+            className={`px-1.5 rounded-md border transition-colors ${
+              current?.digits.includes(i)
+                ? "bg-amber-100 border-amber-300 text-amber-800"
+                : "bg-white border-transparent text-slate-700"
+            }`}
+          >
+            {d}
+          </span>
+        ))}
+      </div>
+      <ol className='space-y-1 text-sm text-slate-700 list-decimal pl-5'>
+        {steps.slice(0, stepper.shown).map((st, i) => (
+          <motion.li
+            key={i}
+            initial={{ opacity: 0, y: 4 }}
+            animate={{ opacity: 1, y: 0 }}
+            className={i === stepper.shown - 1 ? "font-medium" : ""}
+          >
+            {st.text}
+          </motion.li>
+        ))}
+      </ol>
+      <StepControls stepper={stepper} />
     </div>
   );
 };
 
 const FactorizacaoMini = () => {
-  const [x, setX] = useState(36);
-  const fac = useMemo(() => (x >= 2 ? primeFactors(x) : []), [x]);
+  const [text, setText] = useState("36");
+  const input = useMemo(
+    () => parseWholeNumber(text, MAX_FACTOR_DIGITS),
+    [text]
+  );
+  const job = useMemo(
+    () =>
+      input.ok && input.value >= 2n
+        ? { kind: "factor" as const, n: input.value }
+        : null,
+    [input]
+  );
+  const { done, calculating, error } = useMathJob(job);
+  const fac = job && done ? done.result : [];
   return (
     <div className='mt-2 space-y-2'>
       <div className='flex items-center gap-2'>
         <input
-          type='number'
+          inputMode='numeric'
           className='border rounded-xl px-3 py-2 w-36'
-          value={x}
-          onChange={(e) => setX(Math.max(0, Number(e.target.value)))}
+          value={text}
+          onChange={(e) => setText(e.target.value)}
         />
-        <Badge>{x < 2 ? "N/A" : fac.join(" × ") || "—"}</Badge>
+        {calculating ? (
+          <Calculating />
+        ) : (
+          <Badge>
+            {input.ok === false
+              ? "—"
+              : input.value < 2n
+              ? "N/A"
+              : formatFactorization(fac)}
+          </Badge>
+        )}
       </div>
-      <div className='flex flex-wrap gap-2'>
+      {input.ok === false && (
+        <p className='text-xs text-rose-700'>{input.explain}</p>
+      )}
+      {error && <p className='text-xs text-rose-700'>{error}</p>}
+      <div
+        className={`flex flex-wrap gap-2 ${calculating ? "opacity-50" : ""}`}
+      >
         {fac.map((v, i) => (
           <motion.span
             key={i}
@@ -380,7 +1070,7 @@ const FactorizacaoMini = () => {
             animate={{ opacity: 1, y: 0 }}
             className='px-2 py-1 rounded-lg bg-emerald-50 border border-emerald-200 text-emerald-700 text-sm'
           >
-            {v}
+            {String(v)}
           </motion.span>
         ))}
       </div>
@@ -388,12 +1078,52 @@ const FactorizacaoMini = () => {
   );
 };
 
+const MdcMmcMini = () => {
+  const [a, setA] = useState(12);
+  const [b, setB] = useState(18);
+  return (
+    <div className='mt-2 space-y-2'>
+      <div className='flex items-center gap-2 flex-wrap'>
+        <input
+          type='number'
+          className='border rounded-xl px-3 py-2 w-24'
+          value={a}
+          onChange={(e) => setA(Math.max(1, Number(e.target.value)))}
+        />
+        <input
+          type='number'
+          className='border rounded-xl px-3 py-2 w-24'
+          value={b}
+          onChange={(e) => setB(Math.max(1, Number(e.target.value)))}
+        />
+        <Badge>MDC = {gcd(a, b)}</Badge>
+        <Badge>MMC = {lcm(a, b)}</Badge>
+      </div>
+      <p className='text-xs text-slate-600'>
+        Dica: MDC × MMC = {a} × {b}.{" "}
+        <Link to='/mdc-mmc' className='text-indigo-600 underline'>
+          Veja o passo a passo
+        </Link>
+        .
+      </p>
+    </div>
+  );
+};
+
 const PotenciacaoMini = () => {
   const [base, setBase] = useState(2);
   const [exp, setExp] = useState(3);
   const val = useMemo(() => Math.pow(base, exp), [base, exp]);
+  // Inteiros: valor exato com bigint (Math.pow arredonda acima de 2^53)
+  const exact = useMemo(() => {
+    if (!Number.isInteger(base) || !Number.isInteger(exp) || exp < 0) {
+      return null;
+    }
+    if (powerDigitCount(base, exp) > MAX_POWER_DIGITS) return "grande";
+    return String(powBig(BigInt(base), exp));
+  }, [base, exp]);
   const squares = useMemo(
-    () => Array.from({ length: Math.min(val, 100) }),
+    () => Array.from({ length: Math.max(0, Math.min(val, 100)) }),
     [val]
   );
   return (
@@ -412,10 +1142,28 @@ const PotenciacaoMini = () => {
           value={exp}
           onChange={(e) => setExp(Number(e.target.value))}
         />
-        <Badge>= {isFinite(val) ? val : "—"}</Badge>
+        {exact === null ? (
+          <Badge>= {isFinite(val) ? val : "—"}</Badge>
+        ) : (
+          exact !== "grande" && exact.length <= 12 && <Badge>= {exact}</Badge>
+        )}
       </div>
+      {exact === "grande" && (
+        <p className='text-xs text-rose-700'>
+          {base}^{exp} tem cerca de {powerDigitCount(base, exp)} algarismos:
+          grande demais para mostrar aqui (até {MAX_POWER_DIGITS}).
+        </p>
+      )}
+      {exact !== null && exact !== "grande" && exact.length > 12 && (
+        <div className='text-sm font-mono break-all rounded-xl bg-slate-50 border px-3 py-2'>
+          = {exact}{" "}
+          <span className='text-xs text-slate-500'>
+            ({exact.replace("-", "").length} algarismos)
+          </span>
+        </div>
+      )}
       <div className='grid grid-cols-10 gap-1 max-w-md'>
-        {squares.slice(0, Math.min(val, 100)).map((_, i) => (
+        {squares.map((_, i) => (
           <motion.div
             key={i}
             initial={{ scale: 0 }}
@@ -433,132 +1181,442 @@ const PotenciacaoMini = () => {
 };
 
 // ----------------------------------------------
-// Página: Jogo dos Primos (0–100)
+// Página: Jogo dos Primos (caça com clique ou Crivo de Eratóstenes)
 // ----------------------------------------------
-const PrimeHunt = () => {
-  const [clicked, setClicked] = useState<Record<number, "correct" | "wrong">>(
-    {}
-  ); // { n: 'correct' | 'wrong' }
-  const primes = useMemo(
-    () => Array.from({ length: 101 }, (_, i) => i).filter((n) => isPrime(n)),
-    []
-  );
-  const totalPrimes = primes.length;
-  const correctCount = Object.values(clicked).filter(
-    (v) => v === "correct"
-  ).length;
-  const [msg, setMsg] = useState<string | null>(null);
-  const statsRef = useRef(loadStats());
+type PrimeHuntMode = "cacar" | "crivo";
 
-  useEffect(() => {
-    if (correctCount === totalPrimes && totalPrimes > 0) {
-      const s = statsRef.current;
-      s.primeHuntCompleted = true;
-      awardMedal(s, "medal_caca_primos_0_100");
-      s.xp += 50;
-      saveStats(s);
-      setMsg(
-        "Parabéns! Você encontrou todos os primos até 100. Medalha conquistada!"
-      );
-    }
-  }, [correctCount, totalPrimes]);
-
-  const explain = (n: number) => {
-    if (n < 2) return `${n} não é primo (por definição, primos começam em 2).`;
-    if (n % 2 === 0 && n !== 2)
-      return `${n} não é primo: é par (divisível por 2).`;
-    const f = smallestFactor(n);
-    return f ? `${n} não é primo: divisível por ${f}.` : `${n} é primo!`;
-  };
+const PRIME_HUNT_MODES: { id: PrimeHuntMode; label: string }[] = [
+  { id: "cacar", label: "Caçar primos" },
+  { id: "crivo", label: "Crivo de Eratóstenes" },
+];
 
-  const onClickNumber = (n: number) => {
-    setClicked((prev) => {
-      if (prev[n]) return prev; // já respondeu
-      const correct = isPrime(n);
-      const next: Record<number, "correct" | "wrong"> = {
-        ...prev,
-        [n]: correct ? "correct" : "wrong",
-      };
-      setMsg(correct ? `${n} é primo!` : explain(n));
-
-      // leve incremento de XP por tentativa correta
-      if (correct) {
-        const s = statsRef.current;
-        s.xp += 2;
-        saveStats(s);
-      }
-      return next;
-    });
-  };
+const PRIME_HUNT_LIMITS = [100, 200, 500] as const;
+type PrimeHuntLimit = (typeof PRIME_HUNT_LIMITS)[number];
+
+// Classes completas: o Tailwind só gera as que aparecem no código
+const PRIME_GRID_COLS: Record<PrimeHuntLimit, string> = {
+  100: "grid-cols-10",
+  200: "grid-cols-10 sm:grid-cols-20",
+  500: "grid-cols-10 sm:grid-cols-20 lg:grid-cols-25",
+};
+
+// A animação do crivo dura uns 20 s em qualquer faixa
+const SIEVE_STEP_MS: Record<PrimeHuntLimit, number> = {
+  100: 250,
+  200: 120,
+  500: 50,
+};
+
+const PrimeHunt = () => {
+  const [mode, setMode] = useState<PrimeHuntMode>("cacar");
+  const [limit, setLimit] = useState<PrimeHuntLimit>(100);
 
   return (
     <div className='mx-auto max-w-6xl p-3 space-y-4'>
       <SectionTitle
         icon={Star}
-        title='Jogo dos Primos (0–100)'
-        subtitle='Clique apenas nos números primos. Feedback sutil e explicativo.'
+        title={`Jogo dos Primos (0–${limit})`}
+        subtitle={
+          mode === "cacar"
+            ? "Clique apenas nos números primos. Feedback sutil e explicativo."
+            : "Risque os múltiplos de cada primo: quem sobrar é primo."
+        }
       />
-      {msg && (
-        <motion.div
-          initial={{ opacity: 0, y: -6 }}
+      <div className='flex gap-2 flex-wrap'>
+        {PRIME_HUNT_MODES.map((m) => (
+          <Button
+            key={m.id}
+            className={
+              m.id === mode ? "bg-indigo-600 text-white border-indigo-600" : ""
+            }
+            onClick={() => setMode(m.id)}
+          >
+            {m.label}
+          </Button>
+        ))}
+        <span className='w-px bg-slate-200 mx-1' />
+        {PRIME_HUNT_LIMITS.map((l) => (
+          <Button
+            key={l}
+            className={
+              l === limit ? "bg-indigo-600 text-white border-indigo-600" : ""
+            }
+            onClick={() => setLimit(l)}
+          >
+            0–{l}
+          </Button>
+        ))}
+      </div>
+      {mode === "cacar" ? (
+        <PrimeClickGame key={limit} limit={limit} />
+      ) : (
+        <SieveBoard key={limit} limit={limit} />
+      )}
+    </div>
+  );
+};
+
+interface PrimeHuntProps {
+  limit: PrimeHuntLimit;
+}
+
+// Por que n não é primo (ou confirma que é)
+const primeExplain = (n: number) => {
+  if (n < 2) return `${n} não é primo (por definição, primos começam em 2).`;
+  if (n % 2 === 0 && n !== 2)
+    return `${n} não é primo: é par (divisível por 2).`;
+  const f = smallestFactor(n);
+  return f ? `${n} não é primo: divisível por ${f}.` : `${n} é primo!`;
+};
+
+interface PrimeHuntResult {
+  run: PrimeHuntRun;
+  points: PrimeHuntScore;
+  record: boolean; // superou a melhor partida da faixa
+  mistakes: number[]; // números clicados por engano
+}
+
+const PrimeClickGame = ({ limit }: PrimeHuntProps) => {
+  const [clicked, setClicked] = useState<Record<number, "correct" | "wrong">>(
+    {}
+  ); // { n: 'correct' | 'wrong' }
+  const [mistakes, setMistakes] = useState<number[]>([]); // na ordem dos cliques
+  const [startedAt, setStartedAt] = useState<number | null>(null);
+  const [result, setResult] = useState<PrimeHuntResult | null>(null);
+  const primes = useMemo(
+    () =>
+      Array.from({ length: limit + 1 }, (_, i) => i).filter((n) => isPrime(n)),
+    [limit]
+  );
+  const totalPrimes = primes.length;
+  const correctCount = Object.values(clicked).filter(
+    (v) => v === "correct"
+  ).length;
+  const [msg, setMsg] = useState<string | null>(null);
+  const { stats, dispatch } = useStats();
+  const best = stats.primeHuntBests[limit];
+  // Primos que já deram XP nesta faixa; "Recomeçar" não paga de novo
+  const paidPrimes = useRef(new Set<number>());
+
+  const finish = (ms: number) => {
+    const points = primeHuntScore(totalPrimes, mistakes.length, ms, limit);
+    const run: PrimeHuntRun = {
+      limit,
+      found: totalPrimes,
+      mistakes: mistakes.length,
+      ms,
+      score: points.total,
+      at: new Date().toISOString(),
+    };
+    const record = isBetterRun(run, best);
+    setResult({ run, points, record, mistakes });
+    dispatch({ type: "completePrimeHunt", run });
+    // Só a primeira vez que a faixa é completada rende o bônus
+    if (!best) {
+      dispatch({
+        type: "awardXp",
+        amount: REWARDS.primeHuntComplete,
+        at: run.at,
+      });
+    }
+    setMsg(`Parabéns! Você encontrou todos os primos até ${limit}.`);
+  };
+
+  const onClickNumber = (n: number) => {
+    if (result || clicked[n]) return; // já respondeu
+    const now = Date.now();
+    if (startedAt === null) setStartedAt(now);
+    const correct = isPrime(n);
+    setClicked((prev) => ({ ...prev, [n]: correct ? "correct" : "wrong" }));
+    setMsg(correct ? `${n} é primo!` : primeExplain(n));
+    if (!correct) {
+      // O mesmo número errado não conta duas vezes
+      setMistakes((prev) => (prev.includes(n) ? prev : [...prev, n]));
+      return;
+    }
+
+    // leve incremento de XP por tentativa correta, até a faixa ser completada
+    if (!best && !paidPrimes.current.has(n)) {
+      paidPrimes.current.add(n);
+      dispatch({
+        type: "awardXp",
+        amount: REWARDS.primeClick,
+        at: new Date(now).toISOString(),
+      });
+    }
+    if (correctCount + 1 === totalPrimes) finish(now - (startedAt ?? now));
+  };
+
+  // Desfazer apaga o último erro: a marca vermelha e a penalidade
+  const lastMistake = mistakes[mistakes.length - 1];
+  const canUndo =
+    !result && lastMistake !== undefined && clicked[lastMistake] === "wrong";
+  const undo = () => {
+    setClicked((prev) => {
+      const next = { ...prev };
+      delete next[lastMistake];
+      return next;
+    });
+    setMistakes((prev) => prev.slice(0, -1));
+    setMsg(`Erro no ${lastMistake} desfeito.`);
+  };
+
+  const reset = () => {
+    setClicked({});
+    setMistakes([]);
+    setStartedAt(null);
+    setResult(null);
+    setMsg(null);
+  };
+
+  const accuracy = primeHuntAccuracy(correctCount, mistakes.length);
+
+  return (
+    <>
+      <div className='flex gap-2 flex-wrap'>
+        <Button onClick={undo} disabled={!canUndo}>
+          <span className='inline-flex items-center gap-1'>
+            <Undo2 className='w-4 h-4' /> Desfazer erro
+          </span>
+        </Button>
+        <Button onClick={reset}>
+          <span className='inline-flex items-center gap-1'>
+            <RotateCcw className='w-4 h-4' /> Recomeçar
+          </span>
+        </Button>
+      </div>
+      {msg && (
+        <motion.div
+          initial={{ opacity: 0, y: -6 }}
           animate={{ opacity: 1, y: 0 }}
           className='text-sm text-slate-700'
         >
           {msg}
         </motion.div>
       )}
-      <div className='grid grid-cols-10 gap-1 select-none'>
-        {Array.from({ length: 101 }, (_, n) => (
-          <NumberCell
-            key={n}
-            n={n}
-            state={clicked[n]}
-            onClick={() => onClickNumber(n)}
-          />
-        ))}
+      {result ? (
+        <PrimeHuntReview result={result} best={best} onRestart={reset} />
+      ) : (
+        <PrimeGrid limit={limit} states={clicked} onClick={onClickNumber} />
+      )}
+      <div className='text-sm text-slate-700 flex gap-4 flex-wrap'>
+        <span>
+          Acertos:{" "}
+          <strong
+            className={correctCount === totalPrimes ? "text-emerald-600" : ""}
+          >
+            {correctCount}
+          </strong>{" "}
+          / {totalPrimes}
+        </span>
+        <span>
+          Erros: <strong>{mistakes.length}</strong>
+        </span>
+        <span>
+          Precisão: <strong>{percentLabel(accuracy)}</strong> (
+          {correctCount + mistakes.length} tentativas)
+        </span>
+        {best && (
+          <span>
+            Recorde (0–{limit}): <strong>{best.score}</strong> pontos
+          </span>
+        )}
       </div>
+    </>
+  );
+};
+
+interface PrimeHuntReviewProps {
+  result: PrimeHuntResult;
+  best?: PrimeHuntRun;
+  onRestart: () => void;
+}
+
+// Resumo da partida e revisão de cada erro com a explicação
+const PrimeHuntReview = ({ result, best, onRestart }: PrimeHuntReviewProps) => {
+  const { run, points, record } = result;
+  return (
+    <Card className='space-y-3'>
+      <div className='flex items-center justify-between flex-wrap gap-2'>
+        <p className='font-medium text-slate-800'>
+          {run.score} pontos
+          {record && (
+            <span className='ml-2 text-emerald-600'>Novo recorde!</span>
+          )}
+        </p>
+        <Button onClick={onRestart}>Jogar de novo</Button>
+      </div>
+      <div className='flex gap-2 flex-wrap'>
+        <Badge>
+          +{points.base} ({run.found} primos)
+        </Badge>
+        <Badge>
+          −{points.penalty} ({run.mistakes} erros)
+        </Badge>
+        <Badge>+{points.time} pelo tempo</Badge>
+        <Badge>Tempo: {durationLabel(run.ms)}</Badge>
+        <Badge>
+          Precisão: {percentLabel(primeHuntAccuracy(run.found, run.mistakes))}
+        </Badge>
+        {best && !record && <Badge>Recorde: {best.score} pontos</Badge>}
+      </div>
+      {run.mistakes === 0 ? (
+        <p className='text-sm text-emerald-700'>
+          Nenhum erro: você só clicou em primos!
+        </p>
+      ) : (
+        <div className='space-y-1'>
+          <p className='text-sm text-slate-700'>Revise seus erros:</p>
+          <ul className='space-y-1'>
+            {result.mistakes.map((n, i) => (
+              <li
+                key={i}
+                className='text-sm text-rose-800 bg-rose-50 border border-rose-200 rounded-lg px-2 py-1'
+              >
+                {primeExplain(n)}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </Card>
+  );
+};
+
+const sieveMessage = (event: SieveEvent | undefined, limit: number) => {
+  if (!event) {
+    return `Vamos riscar os múltiplos de cada primo até √${limit} ≈ ${Math.floor(
+      Math.sqrt(limit)
+    )}.`;
+  }
+  switch (event.kind) {
+    case "prime":
+      return `${
+        event.n
+      } não foi riscado: é primo! Agora riscamos seus múltiplos a partir de ${
+        event.n
+      }² = ${event.n * event.n}.`;
+    case "cross":
+      return event.by === null
+        ? "0 e 1 não são primos: riscados."
+        : `${event.n} = ${event.by} × ${event.n / event.by}: riscado.`;
+    case "rest":
+      return `Os múltiplos dos primos até √${limit} já foram riscados: todo número que sobrou é primo.`;
+  }
+};
+
+const SieveBoard = ({ limit }: PrimeHuntProps) => {
+  const events = useMemo(() => sieveEvents(limit), [limit]);
+  const stepper = useStepper(events.length, SIEVE_STEP_MS[limit]);
+
+  const states = useMemo(() => {
+    const result: Record<number, CellState> = {};
+    let current: number | null = null;
+    for (const event of events.slice(0, stepper.shown)) {
+      if (event.kind === "prime") {
+        result[event.n] = "correct";
+        current = event.n;
+      } else if (event.kind === "cross") {
+        result[event.n] = "crossed";
+      } else {
+        for (let n = 2; n <= limit; n++) result[n] ??= "correct";
+        current = null;
+      }
+    }
+    if (current !== null) result[current] = "current";
+    return result;
+  }, [events, stepper.shown, limit]);
+
+  // Um passo = um primo com todos os seus múltiplos
+  const nextPrime = () => {
+    const next = events.findIndex(
+      (e, i) => i > stepper.shown && e.kind !== "cross"
+    );
+    stepper.goTo(next === -1 ? events.length : next);
+  };
+
+  const primesFound = Object.values(states).filter(
+    (s) => s === "correct" || s === "current"
+  ).length;
+
+  return (
+    <>
+      <StepControls stepper={stepper} onNext={nextPrime} />
+      <motion.div
+        key={stepper.shown}
+        initial={{ opacity: 0.4 }}
+        animate={{ opacity: 1 }}
+        className='text-sm text-slate-700'
+      >
+        {sieveMessage(events[stepper.shown - 1], limit)}
+      </motion.div>
+      <PrimeGrid limit={limit} states={states} />
       <div className='text-sm text-slate-700'>
-        Acertos:{" "}
-        <strong
-          className={correctCount === totalPrimes ? "text-emerald-600" : ""}
-        >
-          {correctCount}
-        </strong>{" "}
-        / {totalPrimes}
+        Primos encontrados: <strong>{primesFound}</strong>
       </div>
-    </div>
+    </>
   );
 };
 
+interface PrimeGridProps {
+  limit: PrimeHuntLimit;
+  states: Record<number, CellState>;
+  onClick?: (n: number) => void;
+}
+
+const PrimeGrid = ({ limit, states, onClick }: PrimeGridProps) => (
+  <div className={`grid ${PRIME_GRID_COLS[limit]} gap-1 select-none`}>
+    {Array.from({ length: limit + 1 }, (_, n) => (
+      <NumberCell
+        key={n}
+        n={n}
+        state={states[n]}
+        compact={limit > 100}
+        onClick={onClick ? () => onClick(n) : undefined}
+      />
+    ))}
+  </div>
+);
+
+// crossed/current: só no crivo (riscado / primo da vez)
+type CellState = "correct" | "wrong" | "crossed" | "current";
+
 interface NumberCellProps {
   n: number;
-  state?: "correct" | "wrong";
-  onClick: () => void;
+  state?: CellState;
+  compact?: boolean;
+  onClick?: () => void;
 }
 
-const NumberCell = ({ n, state, onClick }: NumberCellProps) => {
-  const isCorrect = state === "correct";
-  const isWrong = state === "wrong";
+const CELL_STYLES: Record<CellState | "idle", { bg: string; text: string }> = {
+  correct: { bg: "#dcfce7", text: "border-emerald-300 text-emerald-800" },
+  wrong: { bg: "#fee2e2", text: "border-rose-300 text-rose-800" },
+  crossed: {
+    bg: "#f1f5f9",
+    text: "border-slate-200 text-slate-400 line-through",
+  },
+  current: { bg: "#e0e7ff", text: "border-indigo-400 text-indigo-800" },
+  idle: {
+    bg: "#ffffff",
+    text: "border-slate-200 hover:bg-slate-50 text-slate-700",
+  },
+};
+
+const NumberCell = ({ n, state, compact, onClick }: NumberCellProps) => {
+  const style = CELL_STYLES[state ?? "idle"];
   return (
     <motion.button
       onClick={onClick}
+      disabled={!onClick}
       initial={false}
       animate={{
-        scale: isCorrect ? 1.05 : 1,
-        backgroundColor: isCorrect
-          ? "#dcfce7"
-          : isWrong
-          ? "#fee2e2"
-          : "#ffffff",
+        scale: state === "correct" || state === "current" ? 1.05 : 1,
+        backgroundColor: style.bg,
       }}
-      whileTap={{ scale: 0.95 }}
-      className={`aspect-square w-full text-sm border rounded-xl flex items-center justify-center transition-colors ${
-        isCorrect
-          ? "border-emerald-300 text-emerald-800"
-          : isWrong
-          ? "border-rose-300 text-rose-800"
-          : "border-slate-200 hover:bg-slate-50 text-slate-700"
-      }`}
+      whileTap={onClick ? { scale: 0.95 } : undefined}
+      className={`aspect-square w-full border flex items-center justify-center transition-colors ${
+        compact ? "text-xs rounded-lg" : "text-sm rounded-xl"
+      } ${style.text}`}
     >
       {n}
     </motion.button>
@@ -568,43 +1626,64 @@ const NumberCell = ({ n, state, onClick }: NumberCellProps) => {
 // ----------------------------------------------
 // Página: Fatoração Animada
 // ----------------------------------------------
+type FactoringMode = "assistir" | "escada" | "arvore";
+
+const FACTORING_MODES: { id: FactoringMode; label: string }[] = [
+  { id: "assistir", label: "Assistir" },
+  { id: "escada", label: "Escada (você divide)" },
+  { id: "arvore", label: "Árvore (você separa)" },
+];
+
+// Escada e árvore trabalham com number: acima disso só o modo Assistir
+const MAX_INTERACTIVE_FACTORING = BigInt(Number.MAX_SAFE_INTEGER);
+
+// Listar mais divisores que isso só enche a tela
+const MAX_DIVISORS_LISTED = 2000;
+
 const FatoracaoPage = () => {
-  const [n, setN] = useState(84);
+  const [text, setText] = useState("84");
+  const input = useMemo(
+    () => parseWholeNumber(text, MAX_FACTOR_DIGITS, 2n),
+    [text]
+  );
+  const job = useMemo(
+    () => (input.ok ? { kind: "factor" as const, n: input.value } : null),
+    [input]
+  );
+  // Enquanto calcula (ou o texto é inválido), mostra o último número pronto
+  const { done, calculating, error } = useMathJob(job);
+  const n = done?.job.n;
+  const factors = useMemo(() => done?.result ?? [], [done]);
+  const [mode, setMode] = useState<FactoringMode>("assistir");
   interface Step {
-    value: number;
-    factor: number;
-    remaining: number;
+    value: bigint;
+    factor: bigint;
+    remaining: bigint;
   }
-  const [steps, setSteps] = useState<Step[]>([]);
-  const [playing, setPlaying] = useState(false);
-  const timerRef = useRef<number | undefined>(undefined);
-
-  const buildSteps = (x: number) => {
-    const arr = [];
-    let v = x;
-    while (v >= 2) {
-      const f = smallestFactor(v);
-      if (!f) {
-        arr.push({ value: v, factor: v, remaining: 1 });
-        break;
-      } else {
-        arr.push({ value: v, factor: f, remaining: v / f });
-        v = v / f;
-      }
-      if (v === 1) break;
+  const steps = useMemo(() => {
+    const arr: Step[] = [];
+    let v = n;
+    for (const f of factors) {
+      arr.push({ value: v, factor: f, remaining: v / f });
+      v = v / f;
     }
     return arr;
-  };
+  }, [n, factors]);
+  const [playing, setPlaying] = useState(false);
+  const timerRef = useRef<number | undefined>(undefined);
 
   useEffect(() => {
-    setSteps(buildSteps(n));
     return () => clearInterval(timerRef.current);
   }, [n]);
 
+  // Passos novos zeram a animação já na renderização: um efeito deixaria um
+  // commit com o shown do número anterior
   const [shown, setShown] = useState(0);
-  useEffect(() => {
+  const [shownSteps, setShownSteps] = useState(steps);
+  if (shownSteps !== steps) {
+    setShownSteps(steps);
     setShown(0);
-  }, [steps]);
+  }
 
   const startAuto = () => {
     setPlaying(true);
@@ -626,14 +1705,19 @@ const FatoracaoPage = () => {
     clearInterval(timerRef.current);
   };
 
-  const statsRef = useRef(loadStats());
+  const { dispatch } = useStats();
+  // XP uma vez por número, ao chegar ao último passo
+  const finishedFor = useRef<bigint | undefined>(undefined);
   useEffect(() => {
-    if (shown >= steps.length && steps.length > 0) {
-      const s = statsRef.current;
-      s.xp += 10;
-      saveStats(s);
-    }
-  }, [shown, steps.length]);
+    if (shown < steps.length || steps.length === 0) return;
+    if (finishedFor.current === n) return;
+    finishedFor.current = n;
+    dispatch({
+      type: "awardXp",
+      amount: REWARDS.factoringFinished,
+      at: new Date().toISOString(),
+    });
+  }, [shown, steps.length, n, dispatch]);
 
   return (
     <div className='mx-auto max-w-6xl p-3 space-y-4'>
@@ -642,84 +1726,558 @@ const FatoracaoPage = () => {
         title='Fatoração em Primos (Animada)'
         subtitle='Divida repetidamente pelo menor primo possível.'
       />
-      <div className='flex items-center gap-2 flex-wrap'>
-        <input
-          type='number'
-          className='border rounded-xl px-3 py-2 w-40'
-          value={n}
-          onChange={(e) => setN(Math.max(2, Number(e.target.value)))}
-        />
-        <Button onClick={() => setShown((s) => Math.min(steps.length, s + 1))}>
-          Próximo passo
-        </Button>
-        {!playing ? (
+      <div className='flex gap-2 flex-wrap'>
+        {FACTORING_MODES.map((m) => (
           <Button
-            className='bg-indigo-600 text-zinc-800 border-indigo-600 border'
-            onClick={startAuto}
+            key={m.id}
+            className={
+              m.id === mode ? "bg-indigo-600 text-white border-indigo-600" : ""
+            }
+            onClick={() => {
+              stopAuto();
+              setMode(m.id);
+            }}
           >
-            Auto
-          </Button>
-        ) : (
-          <Button
-            className='bg-rose-600 text-zinc-800 border-rose-600'
-            onClick={stopAuto}
-          >
-            Parar
+            {m.label}
           </Button>
+        ))}
+      </div>
+      <div className='flex items-center gap-2 flex-wrap'>
+        <input
+          inputMode='numeric'
+          className='border rounded-xl px-3 py-2 w-56'
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+        />
+        {mode === "assistir" && (
+          <>
+            <Button
+              onClick={() => setShown((s) => Math.min(steps.length, s + 1))}
+            >
+              Próximo passo
+            </Button>
+            {!playing ? (
+              <Button
+                className='bg-indigo-600 text-zinc-800 border-indigo-600 border'
+                onClick={startAuto}
+              >
+                Auto
+              </Button>
+            ) : (
+              <Button
+                className='bg-rose-600 text-zinc-800 border-rose-600'
+                onClick={stopAuto}
+              >
+                Parar
+              </Button>
+            )}
+          </>
         )}
       </div>
 
-      <div className='grid md:grid-cols-2 gap-4'>
-        <Card>
-          <div className='space-y-2'>
-            {steps.slice(0, shown).map((st, i) => (
-              <motion.div
-                key={i}
-                initial={{ opacity: 0, y: 8 }}
-                animate={{ opacity: 1, y: 0 }}
-                className='flex items-center gap-2 text-slate-800'
-              >
-                <span className='px-2 py-1 rounded-lg bg-slate-100 border text-sm'>
-                  {st.value}
-                </span>
-                <span className='text-slate-500'>÷</span>
-                <span className='px-2 py-1 rounded-lg bg-indigo-100 border border-indigo-200 text-sm'>
-                  {st.factor}
-                </span>
-                <span className='text-slate-500'>→</span>
-                <span className='px-2 py-1 rounded-lg bg-emerald-100 border border-emerald-200 text-sm'>
-                  {st.remaining}
-                </span>
-              </motion.div>
-            ))}
-          </div>
-        </Card>
-        <Card>
-          <p className='text-sm text-slate-700 mb-2'>Fatores primos:</p>
-          <div className='flex flex-wrap gap-2'>
-            {primeFactors(n)
-              .slice(0, Math.max(0, shown))
-              .map((f, i) => (
-                <motion.span
-                  key={i}
-                  initial={{ scale: 0 }}
-                  animate={{ scale: 1 }}
-                  className='px-3 py-1 rounded-xl bg-emerald-50 border border-emerald-200 text-emerald-700'
-                >
-                  {f}
-                </motion.span>
-              ))}
-          </div>
-        </Card>
+      {input.ok === false && (
+        <p className='text-sm text-rose-700'>{input.explain}</p>
+      )}
+      {calculating && <Calculating />}
+      {error && <p className='text-sm text-rose-700'>{error}</p>}
+      {done && (
+        <>
+          {mode !== "assistir" && n > MAX_INTERACTIVE_FACTORING && (
+            <Card>
+              <p className='text-sm text-slate-700'>
+                {String(n)} é grande demais para fatorar à mão. Use o modo
+                Assistir ou escolha um número menor.
+              </p>
+            </Card>
+          )}
+          {mode === "escada" && n <= MAX_INTERACTIVE_FACTORING && (
+            <FactorLadder key={String(n)} n={Number(n)} />
+          )}
+          {mode === "arvore" && n <= MAX_INTERACTIVE_FACTORING && (
+            <FactorTree key={String(n)} n={Number(n)} />
+          )}
+          {mode === "assistir" && (
+            <div className='grid md:grid-cols-2 gap-4'>
+              <Card>
+                <div className='space-y-2'>
+                  {steps.slice(0, shown).map((st, i) => (
+                    <motion.div
+                      key={i}
+                      initial={{ opacity: 0, y: 8 }}
+                      animate={{ opacity: 1, y: 0 }}
+                      className='flex items-center gap-2 text-slate-800'
+                    >
+                      <span className='px-2 py-1 rounded-lg bg-slate-100 border text-sm'>
+                        {String(st.value)}
+                      </span>
+                      <span className='text-slate-500'>÷</span>
+                      <span className='px-2 py-1 rounded-lg bg-indigo-100 border border-indigo-200 text-sm'>
+                        {String(st.factor)}
+                      </span>
+                      <span className='text-slate-500'>→</span>
+                      <span className='px-2 py-1 rounded-lg bg-emerald-100 border border-emerald-200 text-sm'>
+                        {String(st.remaining)}
+                      </span>
+                    </motion.div>
+                  ))}
+                </div>
+              </Card>
+              <Card>
+                <p className='text-sm text-slate-700 mb-2'>Fatores primos:</p>
+                <div className='flex flex-wrap gap-2'>
+                  {factors.slice(0, Math.max(0, shown)).map((f, i) => (
+                    <motion.span
+                      key={i}
+                      initial={{ scale: 0 }}
+                      animate={{ scale: 1 }}
+                      className='px-3 py-1 rounded-xl bg-emerald-50 border border-emerald-200 text-emerald-700'
+                    >
+                      {String(f)}
+                    </motion.span>
+                  ))}
+                </div>
+                {shown >= steps.length && steps.length > 0 && (
+                  <p className='mt-3 text-slate-800 break-all'>
+                    {String(n)} ={" "}
+                    <strong>{formatFactorization(factors)}</strong>
+                  </p>
+                )}
+              </Card>
+            </div>
+          )}
+          <DivisorsPanel n={n} factors={factors} />
+        </>
+      )}
+    </div>
+  );
+};
+
+// Divisores derivados da fatoração: (e₁+1)(e₂+1)… e a lista completa
+interface DivisorsPanelProps {
+  n: bigint;
+  factors: bigint[]; // já calculados no worker
+}
+const DivisorsPanel = ({ n, factors }: DivisorsPanelProps) => {
+  const count = divisorCount(factors);
+  const divisors = useMemo(
+    () => (count <= MAX_DIVISORS_LISTED ? divisorsFromFactors(factors) : []),
+    [factors, count]
+  );
+  return (
+    <Card>
+      <SectionTitle
+        icon={DivideIcon}
+        title={`Divisores de ${String(n)}`}
+        subtitle='Cada divisor usa cada primo com expoente de 0 até o da fatoração.'
+      />
+      <p className='text-sm text-slate-700'>
+        {String(n)} = {formatFactorization(factors)} →{" "}
+        {divisorCountFormula(factors)} = <strong>{count}</strong> divisores
+      </p>
+      {count > MAX_DIVISORS_LISTED ? (
+        <p className='mt-2 text-xs text-slate-500'>
+          São divisores demais para listar aqui (até {MAX_DIVISORS_LISTED}).
+        </p>
+      ) : (
+        <div className='mt-2 flex flex-wrap gap-1.5 max-h-48 overflow-y-auto'>
+          {divisors.map((d) => (
+            <span
+              key={String(d)}
+              className='px-2 py-0.5 rounded-lg bg-slate-50 border text-sm text-slate-700'
+            >
+              {String(d)}
+            </span>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+};
+
+// ----------------------------------------------
+// Fatoração interativa: o aluno escolhe cada passo
+// ----------------------------------------------
+type StepCheck = { ok: true } | { ok: false; hint: string };
+
+// Dica para achar um divisor primo de v (critérios de divisibilidade)
+const divisorHint = (v: number) => {
+  if (v % 2 === 0) return `${v} é par: dá para dividir por 2.`;
+  if (digitSum(v) % 3 === 0) {
+    return `A soma dos algarismos de ${v} é ${digitSum(
+      v
+    )}, múltiplo de 3: dá para dividir por 3.`;
+  }
+  if (v % 5 === 0) return `${v} termina em 0 ou 5: dá para dividir por 5.`;
+  if (isPrime(v)) {
+    return `Nenhum primo até √${v} ≈ ${Math.floor(
+      Math.sqrt(v)
+    )} divide ${v}: ele é primo, divida por ele mesmo.`;
+  }
+  return `${v} não é divisível por 2, 3 nem 5. Teste 7, 11, 13… (só até √${v} ≈ ${Math.floor(
+    Math.sqrt(v)
+  )}).`;
+};
+
+const parseStepInput = (text: string) => {
+  const d = Number(text.trim());
+  return Number.isInteger(d) ? d : null;
+};
+
+// Escada: o divisor precisa dividir v e ser primo
+const checkLadderDivisor = (v: number, d: number | null): StepCheck => {
+  if (d === null || d < 2) {
+    return { ok: false, hint: "Digite um número inteiro maior que 1." };
+  }
+  if (v % d !== 0) {
+    return {
+      ok: false,
+      hint: `${d} não divide ${v} (sobra ${v % d}). ${divisorHint(v)}`,
+    };
+  }
+  if (!isPrime(d)) {
+    const p = smallestFactor(d)!;
+    return {
+      ok: false,
+      hint: `${d} divide ${v}, mas não é primo (${d} = ${p} × ${
+        d / p
+      }). Na escada usamos só primos: tente ${p}.`,
+    };
+  }
+  return { ok: true };
+};
+
+// Árvore: separar value em a × (value / a), com 1 < a < value
+const checkTreeSplit = (value: number, a: number | null): StepCheck => {
+  if (a === null || a < 2 || a >= value) {
+    return {
+      ok: false,
+      hint: `Escolha um divisor de ${value} diferente de 1 e do próprio ${value}.`,
+    };
+  }
+  if (value % a !== 0) {
+    return {
+      ok: false,
+      hint: `${a} não divide ${value} (sobra ${value % a}). ${divisorHint(
+        value
+      )}`,
+    };
+  }
+  return { ok: true };
+};
+
+const checkPrimeMark = (value: number): StepCheck => {
+  if (isPrime(value)) return { ok: true };
+  const p = smallestFactor(value)!;
+  return {
+    ok: false,
+    hint: `${value} não é primo: ${value} = ${p} × ${
+      value / p
+    }. Continue separando.`,
+  };
+};
+
+const useFactoringReward = (done: boolean) => {
+  const { dispatch } = useStats();
+  useEffect(() => {
+    if (done) {
+      dispatch({
+        type: "awardXp",
+        amount: REWARDS.factoringInteractive,
+        at: new Date().toISOString(),
+      });
+    }
+  }, [done, dispatch]);
+};
+
+interface FactoringExerciseProps {
+  n: number;
+}
+
+interface FactoringFeedbackProps {
+  hint: string | null;
+  mistakes: number;
+}
+const FactoringFeedback = ({ hint, mistakes }: FactoringFeedbackProps) => (
+  <>
+    {hint && (
+      <motion.div
+        key={hint}
+        initial={{ opacity: 0, y: -6 }}
+        animate={{ opacity: 1, y: 0 }}
+        className='mt-3 text-sm text-rose-700 flex items-start gap-2'
+      >
+        <XCircle className='w-4 h-4 mt-0.5 shrink-0' />
+        <span>{hint}</span>
+      </motion.div>
+    )}
+    {mistakes > 0 && (
+      <p className='mt-2 text-xs text-slate-500'>
+        Tentativas erradas: {mistakes}
+      </p>
+    )}
+  </>
+);
+
+const FactorLadder = ({ n }: FactoringExerciseProps) => {
+  interface Rung {
+    value: number;
+    factor: number;
+  }
+  const [rungs, setRungs] = useState<Rung[]>([]);
+  const [input, setInput] = useState("");
+  const [hint, setHint] = useState<string | null>(null);
+  const [mistakes, setMistakes] = useState(0);
+
+  const current = rungs.reduce((v, r) => v / r.factor, n);
+  const done = current === 1;
+  useFactoringReward(done);
+
+  const submit = () => {
+    if (done) return;
+    const d = parseStepInput(input);
+    const check = checkLadderDivisor(current, d);
+    if (check.ok === false) {
+      setHint(check.hint);
+      setMistakes((m) => m + 1);
+      return;
+    }
+    setRungs((prev) => [...prev, { value: current, factor: d! }]);
+    setHint(null);
+    setInput("");
+  };
+
+  const factors = rungs.map((r) => r.factor);
+  return (
+    <Card>
+      <p className='text-sm text-slate-700 mb-3'>
+        Escolha um divisor <strong>primo</strong> do número de baixo e divida.
+        Pare quando chegar a 1.
+      </p>
+      <div className='inline-grid grid-cols-[auto_auto] font-mono text-lg'>
+        {rungs.map((r, i) => (
+          <Fragment key={i}>
+            <span className='px-3 border-r-2 border-slate-400 text-right'>
+              {r.value}
+            </span>
+            <span className='px-3 text-indigo-700'>{r.factor}</span>
+          </Fragment>
+        ))}
+        <span className='px-3 border-r-2 border-slate-400 text-right'>
+          {current}
+        </span>
+        <span className='px-3'>
+          {!done && (
+            <input
+              autoFocus
+              className='border rounded-lg px-2 w-20 text-base'
+              placeholder='÷ ?'
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && submit()}
+            />
+          )}
+        </span>
       </div>
+      {!done && (
+        <div className='mt-3'>
+          <Button onClick={submit}>Dividir</Button>
+        </div>
+      )}
+      <FactoringFeedback hint={hint} mistakes={mistakes} />
+      {done && (
+        <p className='mt-3 text-sm text-emerald-700 flex items-center gap-2'>
+          <CheckCircle2 className='w-4 h-4' />
+          {n} = {formatFactorization(factors)}
+        </p>
+      )}
+    </Card>
+  );
+};
+
+interface TreeNode {
+  value: number;
+  children?: [TreeNode, TreeNode];
+  prime?: boolean; // marcado como primo pelo aluno
+}
+
+// Caminho = índices dos filhos a partir da raiz ("" é a raiz)
+const nodeAt = (root: TreeNode, path: string): TreeNode =>
+  [...path].reduce((node, i) => node.children![Number(i)], root);
+
+const updateNode = (
+  node: TreeNode,
+  path: string,
+  change: (n: TreeNode) => TreeNode
+): TreeNode => {
+  if (path === "") return change(node);
+  const i = Number(path[0]);
+  const children = [...node.children!] as [TreeNode, TreeNode];
+  children[i] = updateNode(children[i], path.slice(1), change);
+  return { ...node, children };
+};
+
+const treeLeaves = (node: TreeNode): TreeNode[] =>
+  node.children ? node.children.flatMap(treeLeaves) : [node];
+
+const FactorTree = ({ n }: FactoringExerciseProps) => {
+  const [root, setRoot] = useState<TreeNode>({ value: n });
+  const [selected, setSelected] = useState<string | null>("");
+  const [input, setInput] = useState("");
+  const [hint, setHint] = useState<string | null>(null);
+  const [mistakes, setMistakes] = useState(0);
+
+  const leaves = treeLeaves(root);
+  const done = leaves.every((l) => l.prime);
+  useFactoringReward(done);
+
+  const fail = (message: string) => {
+    setHint(message);
+    setMistakes((m) => m + 1);
+  };
+
+  const split = () => {
+    if (selected === null) return;
+    const { value } = nodeAt(root, selected);
+    const a = parseStepInput(input);
+    const check = checkTreeSplit(value, a);
+    if (check.ok === false) return fail(check.hint);
+    setRoot((r) =>
+      updateNode(r, selected, (node) => ({
+        value: node.value,
+        children: [{ value: a! }, { value: node.value / a! }],
+      }))
+    );
+    setSelected(null);
+    setHint(null);
+    setInput("");
+  };
+
+  const markPrime = () => {
+    if (selected === null) return;
+    const check = checkPrimeMark(nodeAt(root, selected).value);
+    if (check.ok === false) return fail(check.hint);
+    setRoot((r) =>
+      updateNode(r, selected, (node) => ({ ...node, prime: true }))
+    );
+    setSelected(null);
+    setHint(null);
+  };
+
+  const renderNode = (node: TreeNode, path: string): ReactNode => (
+    <div className='flex flex-col items-center'>
+      <button
+        disabled={!!node.children || node.prime}
+        onClick={() => {
+          setSelected(path);
+          setHint(null);
+        }}
+        className={
+          "px-3 py-1 rounded-full border text-sm font-mono " +
+          (node.prime
+            ? "bg-emerald-100 border-emerald-400 text-emerald-800"
+            : node.children
+            ? "bg-slate-50 border-slate-200 text-slate-500"
+            : path === selected
+            ? "bg-indigo-600 border-indigo-600 text-white"
+            : "bg-white border-indigo-300 text-slate-800 hover:bg-indigo-50")
+        }
+      >
+        {node.value}
+      </button>
+      {node.children && (
+        <div className='flex gap-4 mt-2 pt-2 border-t border-slate-300'>
+          {node.children.map((child, i) => (
+            <Fragment key={i}>{renderNode(child, path + i)}</Fragment>
+          ))}
+        </div>
+      )}
     </div>
   );
+
+  const selectedValue = selected === null ? null : nodeAt(root, selected).value;
+  return (
+    <Card>
+      <p className='text-sm text-slate-700 mb-3'>
+        Clique num número da ponta: separe-o em dois fatores ou marque-o como
+        primo. Termina quando todas as pontas forem primos.
+      </p>
+      <div className='overflow-x-auto pb-2'>{renderNode(root, "")}</div>
+      {selectedValue !== null && !done && (
+        <div className='mt-3 flex items-center gap-2 flex-wrap text-sm'>
+          <span>{selectedValue} =</span>
+          <input
+            autoFocus
+            className='border rounded-lg px-2 py-1 w-20'
+            placeholder='fator'
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && split()}
+          />
+          <span>× ?</span>
+          <Button onClick={split}>Separar</Button>
+          <Button onClick={markPrime}>É primo</Button>
+        </div>
+      )}
+      <FactoringFeedback hint={hint} mistakes={mistakes} />
+      {done && (
+        <p className='mt-3 text-sm text-emerald-700 flex items-center gap-2'>
+          <CheckCircle2 className='w-4 h-4' />
+          {n} = {formatFactorization(leaves.map((l) => l.value))}
+        </p>
+      )}
+    </Card>
+  );
 };
 
 // ----------------------------------------------
-// Página: Divisão Animada (grupos de pontos)
+// Página: Divisão Animada (grupos de pontos ou método da chave)
 // ----------------------------------------------
+type DivisionView = "grupos" | "chave" | "praticar";
+
+const DIVISION_VIEWS: { id: DivisionView; label: string }[] = [
+  { id: "grupos", label: "Grupos de pontos" },
+  { id: "chave", label: "Método da chave" },
+  { id: "praticar", label: "Praticar (quociente e resto)" },
+];
+
+const DIVISION_SUBTITLES: Record<DivisionView, string> = {
+  grupos: "Forme grupos do tamanho do divisor e observe o resto.",
+  chave:
+    "A conta armada, algarismo por algarismo: estimar, multiplicar, subtrair e baixar.",
+  praticar: "Complete a = b × q + r com o quociente e o resto.",
+};
+
 const DivisaoPage = () => {
+  const [view, setView] = useState<DivisionView>("grupos");
+
+  return (
+    <div className='mx-auto max-w-6xl p-3 space-y-4'>
+      <SectionTitle
+        icon={DivideIcon}
+        title='Divisão Animada'
+        subtitle={DIVISION_SUBTITLES[view]}
+      />
+      <div className='flex gap-2 flex-wrap'>
+        {DIVISION_VIEWS.map((v) => (
+          <Button
+            key={v.id}
+            className={
+              v.id === view ? "bg-indigo-600 text-white border-indigo-600" : ""
+            }
+            onClick={() => setView(v.id)}
+          >
+            {v.label}
+          </Button>
+        ))}
+      </div>
+      {view === "grupos" && <DotsDivision />}
+      {view === "chave" && <LongDivisionView />}
+      {view === "praticar" && <DivisionPractice />}
+    </div>
+  );
+};
+
+const DotsDivision = () => {
   const [dividendo, setDividendo] = useState(13);
   const [divisor, setDivisor] = useState(4);
   const [step, setStep] = useState(0);
@@ -735,242 +2293,779 @@ const DivisaoPage = () => {
   }, [dividendo, divisor]);
 
   const shown = Math.min(step, groups.groups);
+  const full = shown >= groups.groups; // não cabe outro grupo
+
+  const reset = () => setStep(0);
+
+  return (
+    <>
+      <div className='flex items-center gap-2 flex-wrap'>
+        <input
+          type='number'
+          className='border rounded-xl px-3 py-2 w-32'
+          value={dividendo}
+          onChange={(e) => setDividendo(Math.max(0, Number(e.target.value)))}
+        />
+        <span className='text-slate-600'>÷</span>
+        <input
+          type='number'
+          className='border rounded-xl px-3 py-2 w-32'
+          value={divisor}
+          onChange={(e) => setDivisor(Math.max(1, Number(e.target.value)))}
+        />
+        <Button
+          onClick={() => setStep((s) => Math.min(groups.groups, s + 1))}
+          disabled={full}
+        >
+          Próximo grupo
+        </Button>
+        <Button onClick={reset}>Reiniciar</Button>
+      </div>
+      {full && (
+        <p className='text-sm text-emerald-700'>
+          Não cabe outro grupo de {divisor}: sobram {groups.remainder}, menos
+          que o divisor. {dividendo} = {divisor} × {groups.groups} +{" "}
+          {groups.remainder}.
+        </p>
+      )}
+
+      <div className='space-y-2'>
+        <p className='text-sm text-slate-700'>
+          Grupos completos: <strong>{shown}</strong> | Resto:{" "}
+          <strong>{Math.max(0, dividendo - shown * divisor)}</strong>
+        </p>
+        <div className='flex flex-wrap gap-4'>
+          {Array.from({ length: shown }).map((_, gi) => (
+            <motion.div
+              key={gi}
+              initial={{ scale: 0 }}
+              animate={{ scale: 1 }}
+              className='flex gap-1 bg-slate-50 border border-slate-200 p-2 rounded-xl'
+            >
+              {Array.from({ length: divisor }).map((_, di) => (
+                <div key={di} className='w-3 h-3 rounded-full bg-slate-700' />
+              ))}
+            </motion.div>
+          ))}
+          {/* Resto visual */}
+          {dividendo - shown * divisor > 0 && (
+            <div className='flex items-center gap-2 text-sm text-slate-600'>
+              <span>Resto:</span>
+              <div className='flex gap-1'>
+                {Array.from({
+                  length: Math.max(0, dividendo - shown * divisor),
+                }).map((_, ri) => (
+                  <div key={ri} className='w-3 h-3 rounded-full bg-rose-500' />
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </>
+  );
+};
+
+// Método da chave: conta armada com explicação de cada passo
+const MAX_LONG_DIVIDEND = 999_999_999;
+const MAX_LONG_DIVISOR = 99_999;
+const LONG_DIVISION_STEP_MS = 1500;
+
+const toWholeNumber = (value: string, min: number, max: number) =>
+  Math.min(max, Math.max(min, Math.floor(Number(value) || 0)));
+
+interface WorkRow {
+  text: string;
+  end: number; // coluna (índice no dividendo) do último algarismo
+  kind: "product" | "remainder";
+}
+
+// O que já está escrito na lousa depois dos passos visíveis
+const longDivisionBoard = (
+  division: LongDivision,
+  visible: LongDivisionStep[]
+) => {
+  const digits = String(division.dividend);
+  let quotient = "";
+  let usedEnd = -1;
+  let brought: number | null = null;
+  const rows: WorkRow[] = [];
+  for (const step of visible) {
+    if (step.kind === "done") continue;
+    const c = division.cycles[step.cycle];
+    switch (step.kind) {
+      case "separate":
+        usedEnd = c.end;
+        break;
+      case "estimate":
+        quotient += c.digit;
+        break;
+      case "multiply":
+        rows.push({ text: String(c.product), end: c.end, kind: "product" });
+        break;
+      case "subtract":
+        rows.push({ text: String(c.remainder), end: c.end, kind: "remainder" });
+        break;
+      case "bringDown": {
+        // O algarismo desce para o lado do último resto
+        const last = rows[rows.length - 1];
+        rows[rows.length - 1] = {
+          ...last,
+          text: last.text + digits[c.end],
+          end: c.end,
+        };
+        usedEnd = c.end;
+        brought = c.end;
+        break;
+      }
+    }
+  }
+  return { quotient, usedEnd, brought, rows };
+};
+
+const LongDivisionView = () => {
+  const [dividend, setDividend] = useState(1234);
+  const [divisor, setDivisor] = useState(7);
+  const division = useMemo(
+    () => longDivision(dividend, divisor),
+    [dividend, divisor]
+  );
+  const steps = useMemo(() => longDivisionSteps(division), [division]);
+
+  return (
+    <>
+      <div className='flex items-center gap-2 flex-wrap'>
+        <input
+          type='number'
+          className='border rounded-xl px-3 py-2 w-40'
+          value={dividend}
+          onChange={(e) =>
+            setDividend(toWholeNumber(e.target.value, 0, MAX_LONG_DIVIDEND))
+          }
+        />
+        <span className='text-slate-600'>÷</span>
+        <input
+          type='number'
+          className='border rounded-xl px-3 py-2 w-32'
+          value={divisor}
+          onChange={(e) =>
+            setDivisor(toWholeNumber(e.target.value, 1, MAX_LONG_DIVISOR))
+          }
+        />
+      </div>
+      <LongDivisionBoard
+        key={`${dividend}|${divisor}`}
+        division={division}
+        steps={steps}
+      />
+    </>
+  );
+};
+
+interface LongDivisionBoardProps {
+  division: LongDivision;
+  steps: LongDivisionStep[];
+}
+
+const LongDivisionBoard = ({ division, steps }: LongDivisionBoardProps) => {
+  const stepper = useStepper(steps.length, LONG_DIVISION_STEP_MS);
+  const visible = steps.slice(0, stepper.shown);
+  const board = longDivisionBoard(division, visible);
+  const digits = String(division.dividend);
+  const current = visible[visible.length - 1];
+
+  // Coluna 0 fica para o sinal de menos; o algarismo i vai na coluna i + 1
+  const cellsOf = (row: WorkRow) => {
+    const start = row.end - row.text.length + 1;
+    return Array.from({ length: digits.length + 1 }, (_, col) => {
+      const i = col - 1;
+      if (i >= start && i <= row.end) return row.text[i - start];
+      if (row.kind === "product" && i === start - 1) return "−";
+      return "";
+    });
+  };
+
+  return (
+    <div className='grid md:grid-cols-2 gap-4'>
+      <Card className='space-y-3'>
+        <StepControls stepper={stepper} />
+        <div className='flex items-start gap-3 font-mono text-xl overflow-x-auto'>
+          <div>
+            <div className='flex'>
+              <span className='w-6' />
+              {[...digits].map((d, i) => (
+                <span
+                  key={i}
+                  className={
+                    "w-6 text-center " +
+                    (i === board.brought
+                      ? "text-indigo-600 font-bold"
+                      : i <= board.usedEnd
+                      ? "text-slate-800"
+                      : "text-slate-400")
+                  }
+                >
+                  {d}
+                </span>
+              ))}
+            </div>
+            {board.rows.map((row, r) => (
+              <motion.div
+                key={r}
+                initial={{ opacity: 0, y: -6 }}
+                animate={{ opacity: 1, y: 0 }}
+                className='flex'
+              >
+                {cellsOf(row).map((ch, col) => (
+                  <span
+                    key={col}
+                    className={
+                      "w-6 text-center " +
+                      (row.kind === "product"
+                        ? "text-rose-600 " +
+                          (ch ? "border-b-2 border-slate-700" : "")
+                        : r === board.rows.length - 1
+                        ? "text-emerald-700"
+                        : "text-slate-700")
+                    }
+                  >
+                    {ch}
+                  </span>
+                ))}
+              </motion.div>
+            ))}
+          </div>
+          <div className='border-l-2 border-slate-700'>
+            <div className='border-b-2 border-slate-700 px-2'>
+              {division.divisor}
+            </div>
+            <div className='px-2 text-indigo-700 min-h-[1.75rem]'>
+              {board.quotient}
+            </div>
+          </div>
+        </div>
+      </Card>
+      <Card className='space-y-2'>
+        <p className='font-medium text-slate-800'>Passo a passo</p>
+        {current ? (
+          <motion.p
+            key={stepper.shown}
+            initial={{ opacity: 0, y: 6 }}
+            animate={{ opacity: 1, y: 0 }}
+            className='text-slate-800'
+          >
+            {describeStep(division, current)}
+          </motion.p>
+        ) : (
+          <p className='text-sm text-slate-600'>
+            Clique em “Próximo passo” ou “Auto” para armar a conta.
+          </p>
+        )}
+        <ol className='list-decimal pl-5 text-xs text-slate-500 space-y-0.5'>
+          {visible.slice(0, -1).map((step, i) => (
+            <li key={i}>{describeStep(division, step)}</li>
+          ))}
+        </ol>
+        {stepper.done && (
+          <p className='text-slate-800'>
+            <strong>
+              {division.dividend} = {division.divisor} × {division.quotient} +{" "}
+              {division.remainder}
+            </strong>{" "}
+            (quociente {division.quotient}, resto {division.remainder})
+          </p>
+        )}
+      </Card>
+    </div>
+  );
+};
+
+// Prática: o aluno completa a = b × q + r (quociente e resto juntos)
+const newDivisionExercise = (negatives: boolean) =>
+  generateExercise(
+    createRng(randomSeed()),
+    negatives ? "avancado" : "iniciante",
+    "divisao"
+  ) as ExerciseOf<"divisao">;
+
+const DivisionPractice = () => {
+  const [negatives, setNegatives] = useState(false);
+  const [ex, setEx] = useState(() => newDivisionExercise(false));
+  const [q, setQ] = useState("");
+  const [r, setR] = useState("");
+  const [feedback, setFeedback] = useState<CheckResult | null>(null);
+  const [formatHint, setFormatHint] = useState<string | null>(null);
+  const { dispatch } = useStats();
+
+  const shownAt = useRef(Date.now());
+  useEffect(() => {
+    shownAt.current = Date.now();
+  }, [ex]);
+
+  const next = (withNegatives = negatives) => {
+    setEx(newDivisionExercise(withNegatives));
+    setQ("");
+    setR("");
+    setFeedback(null);
+    setFormatHint(null);
+  };
+
+  const submit = () => {
+    if (feedback || !q.trim() || !r.trim()) return;
+    const answer = `q = ${q.trim()}, r = ${r.trim()}`;
+    const result = checkAnswer(ex, answer);
+    if (result.invalid) return setFormatHint(result.explain);
+    setFeedback(result);
+    setFormatHint(null);
+
+    const answeredAt = Date.now();
+    const at = new Date(answeredAt).toISOString();
+    dispatch({
+      type: "recordAnswer",
+      exercise: ex,
+      answer,
+      correct: result.correct,
+      ms: answeredAt - shownAt.current,
+      at,
+    });
+    if (result.correct) {
+      dispatch({ type: "awardXp", amount: REWARDS.divisionCorrect, at });
+    }
+  };
+
+  const onKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "Enter") submit();
+  };
+
+  return (
+    <Card className='space-y-3 max-w-2xl'>
+      <label className='flex items-center gap-2 text-sm text-slate-700'>
+        <input
+          type='checkbox'
+          checked={negatives}
+          onChange={(e) => {
+            setNegatives(e.target.checked);
+            next(e.target.checked);
+          }}
+        />
+        Dividendos negativos (avançado)
+      </label>
+      <p className='text-slate-800'>
+        Divida <strong>{ex.a}</strong> por <strong>{ex.b}</strong>.
+      </p>
+      <div className='flex items-end gap-2 flex-wrap text-lg text-slate-800'>
+        <span>{ex.a} =</span>
+        <span>{ex.b} ×</span>
+        <label className='flex flex-col items-center text-xs text-slate-500'>
+          <input
+            className='border rounded-xl px-3 py-2 w-24 text-lg text-slate-800'
+            value={q}
+            onChange={(e) => setQ(e.target.value)}
+            onKeyDown={onKeyDown}
+            disabled={!!feedback}
+          />
+          quociente
+        </label>
+        <span>+</span>
+        <label className='flex flex-col items-center text-xs text-slate-500'>
+          <input
+            className='border rounded-xl px-3 py-2 w-24 text-lg text-slate-800'
+            value={r}
+            onChange={(e) => setR(e.target.value)}
+            onKeyDown={onKeyDown}
+            disabled={!!feedback}
+          />
+          resto
+        </label>
+      </div>
+      {negatives && (
+        <p className='text-xs text-slate-600'>
+          Convenção euclidiana: o resto fica sempre entre 0 e o divisor (0 ≤ r
+          &lt; {ex.b}), mesmo com dividendo negativo.
+        </p>
+      )}
+      <FormatHint text={formatHint} />
+      <AnimatePresence>
+        {feedback && (
+          <motion.div
+            initial={{ opacity: 0, y: -8 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -8 }}
+            className={`text-sm flex items-start gap-2 ${
+              feedback.correct ? "text-emerald-700" : "text-rose-700"
+            }`}
+          >
+            {feedback.correct ? (
+              <CheckCircle2 className='w-4 h-4 mt-0.5' />
+            ) : (
+              <XCircle className='w-4 h-4 mt-0.5' />
+            )}
+            <div>
+              {feedback.correct
+                ? "Correto!"
+                : `Incorreto. Resposta esperada: ${feedback.expected}.`}
+              <div className='text-slate-600 mt-1'>{feedback.explain}</div>
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+      <div className='flex gap-2'>
+        <Button
+          className='bg-indigo-600 text-white border-indigo-600'
+          onClick={submit}
+          disabled={!!feedback}
+        >
+          Conferir
+        </Button>
+        <Button onClick={() => next()}>Próxima conta</Button>
+      </div>
+    </Card>
+  );
+};
 
-  const reset = () => setStep(0);
+// ----------------------------------------------
+// Página: MDC e MMC (Euclides e tabela de fatoração simultânea)
+// ----------------------------------------------
+const MdcMmcPage = () => {
+  const [a, setA] = useState(84);
+  const [b, setB] = useState(120);
 
   return (
     <div className='mx-auto max-w-6xl p-3 space-y-4'>
       <SectionTitle
-        icon={DivideIcon}
-        title='Divisão Animada'
-        subtitle='Forme grupos do tamanho do divisor e observe o resto.'
+        icon={Combine}
+        title='MDC e MMC'
+        subtitle='Dois caminhos: divisões sucessivas ou fatoração simultânea.'
       />
       <div className='flex items-center gap-2 flex-wrap'>
         <input
           type='number'
           className='border rounded-xl px-3 py-2 w-32'
-          value={dividendo}
-          onChange={(e) => setDividendo(Math.max(0, Number(e.target.value)))}
+          value={a}
+          onChange={(e) => setA(Math.max(1, Number(e.target.value)))}
         />
-        <span className='text-slate-600'>÷</span>
+        <span className='text-slate-600'>e</span>
         <input
           type='number'
           className='border rounded-xl px-3 py-2 w-32'
-          value={divisor}
-          onChange={(e) => setDivisor(Math.max(1, Number(e.target.value)))}
+          value={b}
+          onChange={(e) => setB(Math.max(1, Number(e.target.value)))}
         />
-        <Button onClick={() => setStep((s) => s + 1)}>Próximo grupo</Button>
-        <Button onClick={reset}>Reiniciar</Button>
       </div>
-
-      <div className='space-y-2'>
+      <div className='grid md:grid-cols-2 gap-4'>
+        <EuclidCard key={`${a}|${b}`} a={a} b={b} />
+        <SimultaneousTable key={`${a}|${b}`} a={a} b={b} />
+      </div>
+      <Card>
         <p className='text-sm text-slate-700'>
-          Grupos completos: <strong>{shown}</strong> | Resto:{" "}
-          <strong>{Math.max(0, dividendo - shown * divisor)}</strong>
+          Confira: MDC × MMC = {a} × {b}. Aqui, {gcd(a, b)} × {lcm(a, b)} ={" "}
+          <strong>{a * b}</strong>.
         </p>
-        <div className='flex flex-wrap gap-4'>
-          {Array.from({ length: shown }).map((_, gi) => (
-            <motion.div
-              key={gi}
-              initial={{ scale: 0 }}
-              animate={{ scale: 1 }}
-              className='flex gap-1 bg-slate-50 border border-slate-200 p-2 rounded-xl'
+      </Card>
+    </div>
+  );
+};
+
+interface MdcMmcProps {
+  a: number;
+  b: number;
+}
+
+const EuclidCard = ({ a, b }: MdcMmcProps) => {
+  const steps = useMemo(() => euclidSteps(a, b), [a, b]);
+  const stepper = useStepper(steps.length);
+
+  return (
+    <Card className='space-y-3'>
+      <div>
+        <p className='font-medium text-slate-800'>Algoritmo de Euclides</p>
+        <p className='text-xs text-slate-600'>
+          Divida o maior pelo menor; depois, o divisor pelo resto. Quando o
+          resto for 0, o último divisor é o MDC.
+        </p>
+      </div>
+      <StepControls stepper={stepper} />
+      <div className='space-y-3'>
+        {steps.slice(0, stepper.shown).map((st, i) => (
+          <motion.div
+            key={i}
+            initial={{ opacity: 0, y: 8 }}
+            animate={{ opacity: 1, y: 0 }}
+            className='space-y-1'
+          >
+            <p className='text-sm text-slate-800'>
+              {st.dividend} = {st.divisor} × {st.quotient} +{" "}
+              <strong
+                className={
+                  st.remainder === 0 ? "text-emerald-700" : "text-rose-600"
+                }
+              >
+                {st.remainder}
+              </strong>
+            </p>
+            <EuclidBar step={st} />
+          </motion.div>
+        ))}
+      </div>
+      {stepper.done && (
+        <p className='text-slate-800'>
+          MDC({a}, {b}) = <strong>{gcd(a, b)}</strong>
+        </p>
+      )}
+    </Card>
+  );
+};
+
+// Barra do dividendo: blocos do tamanho do divisor e, no fim, o resto
+const MAX_BAR_SEGMENTS = 12;
+
+const EuclidBar = ({ step }: { step: EuclidStep }) => {
+  const width = (v: number) => `${(v / step.dividend) * 100}%`;
+  // Quocientes grandes viram um bloco só, para a barra continuar legível
+  const blocks =
+    step.quotient <= MAX_BAR_SEGMENTS
+      ? Array<number>(step.quotient).fill(step.divisor)
+      : [step.quotient * step.divisor];
+  return (
+    <div className='flex h-5 w-full rounded-lg overflow-hidden border bg-slate-50'>
+      {blocks.map((size, i) => (
+        <motion.div
+          key={i}
+          initial={{ width: 0 }}
+          animate={{ width: width(size) }}
+          transition={{ delay: i * 0.08 }}
+          className='h-full bg-indigo-200 border-r border-white text-[10px] text-indigo-800 flex items-center justify-center overflow-hidden'
+        >
+          {size === step.divisor ? size : `${step.quotient} × ${step.divisor}`}
+        </motion.div>
+      ))}
+      {step.remainder > 0 && (
+        <motion.div
+          initial={{ width: 0 }}
+          animate={{ width: width(step.remainder) }}
+          transition={{ delay: blocks.length * 0.08 }}
+          className='h-full bg-rose-200'
+        />
+      )}
+    </div>
+  );
+};
+
+const SimultaneousTable = ({ a, b }: MdcMmcProps) => {
+  const rows = useMemo(() => simultaneousFactorization([a, b]), [a, b]);
+  const stepper = useStepper(rows.length);
+  const common = rows.filter((r) => r.common).map((r) => r.prime);
+  const all = rows.map((r) => r.prime);
+
+  return (
+    <Card className='space-y-3'>
+      <div>
+        <p className='font-medium text-slate-800'>Fatoração simultânea</p>
+        <p className='text-xs text-slate-600'>
+          Divida os dois pelo menor primo que divide algum deles. Os primos que
+          dividem <strong>os dois</strong> (em verde) formam o MDC; todos juntos
+          formam o MMC.
+        </p>
+      </div>
+      <StepControls stepper={stepper} />
+      <table className='text-sm'>
+        <tbody>
+          {rows.slice(0, stepper.shown).map((row, i) => (
+            <motion.tr
+              key={i}
+              initial={{ opacity: 0, x: -8 }}
+              animate={{ opacity: 1, x: 0 }}
             >
-              {Array.from({ length: divisor }).map((_, di) => (
-                <div key={di} className='w-3 h-3 rounded-full bg-slate-700' />
+              {row.values.map((v, j) => (
+                <td
+                  key={j}
+                  className={
+                    "px-3 py-1 text-right " +
+                    (v % row.prime === 0 ? "text-slate-800" : "text-slate-400")
+                  }
+                >
+                  {v}
+                </td>
               ))}
-            </motion.div>
+              <td className='border-l px-3 py-1'>
+                <span
+                  className={
+                    "px-2 py-0.5 rounded-lg border " +
+                    (row.common
+                      ? "bg-emerald-50 border-emerald-200 text-emerald-700"
+                      : "bg-slate-100 text-slate-700")
+                  }
+                >
+                  {row.prime}
+                </span>
+              </td>
+            </motion.tr>
           ))}
-          {/* Resto visual */}
-          {dividendo - shown * divisor > 0 && (
-            <div className='flex items-center gap-2 text-sm text-slate-600'>
-              <span>Resto:</span>
-              <div className='flex gap-1'>
-                {Array.from({
-                  length: Math.max(0, dividendo - shown * divisor),
-                }).map((_, ri) => (
-                  <div key={ri} className='w-3 h-3 rounded-full bg-rose-500' />
-                ))}
-              </div>
-            </div>
+          {stepper.done && (
+            <tr>
+              {[a, b].map((_, j) => (
+                <td key={j} className='px-3 py-1 text-right text-slate-400'>
+                  1
+                </td>
+              ))}
+              <td className='border-l' />
+            </tr>
           )}
+        </tbody>
+      </table>
+      {stepper.done && (
+        <div className='text-sm text-slate-800 space-y-1'>
+          <p>
+            MDC ={" "}
+            {common.length > 0
+              ? `${formatFactorization(common)} = ${gcd(a, b)}`
+              : "1 (nenhum primo divide os dois)"}
+          </p>
+          <p>
+            MMC ={" "}
+            {all.length > 0
+              ? `${formatFactorization(all)} = ${lcm(a, b)}`
+              : lcm(a, b)}
+          </p>
         </div>
-      </div>
-    </div>
+      )}
+    </Card>
   );
 };
 
 // ----------------------------------------------
 // Página: Exercícios (Jogo de 5) + Gerador Aleatório
 // ----------------------------------------------
-const TYPES = ["divisibilidade", "primos", "fatoracao", "potenciacao", "resto"];
-
-const generateExercise = () => {
-  const type = TYPES[Math.floor(Math.random() * TYPES.length)];
-  switch (type) {
-    case "divisibilidade": {
-      const n = 10 + Math.floor(Math.random() * 190);
-      const by = [2, 3, 5, 10][Math.floor(Math.random() * 4)];
-      const correct = n % by === 0;
-      return {
-        type,
-        prompt: `O número ${n} é divisível por ${by}? (S/N)`,
-        answer: correct ? "S" : "N",
-        explain:
-          by === 3
-            ? `Soma dos algarismos de ${n} = ${String(n)
-                .split("")
-                .reduce((a, b) => a + Number(b), 0)}; ${
-                correct ? "é" : "não é"
-              } múltiplo de 3.`
-            : `Regra prática de divisibilidade por ${by}.`,
-      };
-    }
-    case "primos": {
-      const candidates = [
-        11, 12, 13, 14, 15, 16, 17, 19, 21, 23, 25, 29, 31, 33,
-      ];
-      const n = candidates[Math.floor(Math.random() * candidates.length)];
-      return {
-        type,
-        prompt: `${n} é primo? (S/N)`,
-        answer: isPrime(n) ? "sim" : "não",
-        explain: isPrime(n)
-          ? `${n} tem apenas dois divisores (1 e ele mesmo).`
-          : `${n} não é primo; menor divisor: ${smallestFactor(n) ?? "—"}.`,
-      };
-    }
-    case "fatoracao": {
-      const n = [12, 18, 20, 24, 36, 45, 50, 60][Math.floor(Math.random() * 8)];
-      const expectedFactors = primeFactors(n);
-      const fac = expectedFactors.join(" × ");
-      return {
-        type,
-        value: n, // usado para validar produto
-        expected: expectedFactors, // multiconjunto esperado (ordem livre)
-        prompt: `Fatore ${n} em primos.`,
-        answer: fac,
-        explain: `Fatoração: ${fac}.`,
-      };
-    }
-    case "potenciacao": {
-      const base = [2, 3, 4, 5][Math.floor(Math.random() * 4)];
-      const exp = [2, 3, 4][Math.floor(Math.random() * 3)];
-      return {
-        type,
-        prompt: `Calcule ${base}^${exp} (${base} elevado a ${exp}).`,
-        answer: String(Math.pow(base, exp)),
-        explain: `${base} multiplicado por si mesmo ${exp} vezes = ${Math.pow(
-          base,
-          exp
-        )}`,
-      };
-    }
-    case "resto": {
-      const a = 10 + Math.floor(Math.random() * 90);
-      const b = 3 + Math.floor(Math.random() * 9);
-      const q = Math.floor(a / b);
-      const r = a % b;
-      return {
-        type,
-        prompt: `Em ${a} ÷ ${b}, qual é o resto?`,
-        answer: String(r),
-        explain: `${a} = ${b} × ${q} + ${r}.`,
-      };
-    }
-    default:
-      return {
-        type: "divisibilidade",
-        prompt: "Erro ao gerar",
-        answer: "",
-        explain: "",
-      };
-  }
-};
-
 const ExerciciosPage = () => {
+  // Semente e nível vêm da rota (#/exercicios?seed=...&nivel=...);
+  // sem semente, uma é sorteada ao abrir
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [initialSeed] = useState(randomSeed);
+  const seed = searchParams.get("seed") || initialSeed;
+  const nivel = searchParams.get("nivel");
+  const difficulty: Difficulty = isDifficulty(nivel) ? nivel : "iniciante";
+  // Links com semente (de professor) são fixos; senão, adaptativo por padrão
+  const adaptativo = searchParams.get("adaptativo");
+  const adaptive = adaptativo ? adaptativo === "1" : !searchParams.get("seed");
+  // Links antigos (sem ?versao=) continuam com o sorteio da época
+  const version = searchParams.get("seed")
+    ? generatorVersionOf(searchParams.get("versao"))
+    : GENERATOR_VERSION;
+  const [seedInput, setSeedInput] = useState("");
+  const shareLink = `#/exercicios?seed=${seed}&nivel=${difficulty}&adaptativo=${
+    adaptive ? "1" : "0"
+  }&versao=${version}`;
+
   const [round, setRound] = useState(1);
-  const [ex, setEx] = useState<any>(generateExercise());
   const [input, setInput] = useState("");
-  const [feedback, setFeedback] = useState<any>(null);
+  const [feedback, setFeedback] = useState<CheckResult | null>(null);
+  const [formatHint, setFormatHint] = useState<string | null>(null);
   const [score, setScore] = useState(0);
-  const statsRef = useRef(loadStats());
+  const { stats, dispatch } = useStats();
+  // Pesos dos tópicos congelados no início de cada rodada
+  const [recs, setRecs] = useState(() => recommendTopics(stats));
+
+  // streak: acertos (+) ou erros (−) seguidos; roundStreak é o valor
+  // congelado ao avançar, para o nível não mudar no meio da rodada
+  const [streak, setStreak] = useState(0);
+  const [roundStreak, setRoundStreak] = useState(0);
+  const level = adaptive ? rampDifficulty(difficulty, roundStreak) : difficulty;
+  const ex = useMemo(
+    () =>
+      exerciseFor(
+        seed,
+        round,
+        level,
+        adaptive ? (rng) => pickWeighted(rng, recs) : undefined,
+        version
+      ),
+    [seed, round, level, adaptive, recs, version]
+  );
+
+  // Semente, nível ou modo novos (botão ou link) reiniciam a série
+  const sessionKey = `${seed}|${difficulty}|${adaptive}|${version}`;
+  const [activeSession, setActiveSession] = useState(sessionKey);
+  if (activeSession !== sessionKey) {
+    setActiveSession(sessionKey);
+    setRound(1);
+    setScore(0);
+    setInput("");
+    setFeedback(null);
+    setFormatHint(null);
+    setStreak(0);
+    setRoundStreak(0);
+    setRecs(recommendTopics(stats));
+  }
 
+  // Momento em que o exercício apareceu (tempo de resposta no histórico)
+  const shownAt = useRef(Date.now());
   useEffect(() => {
-    // nova sessão de 5
-    if (round === 1) {
-      const s = statsRef.current;
-      s.sessions += 1;
-      saveStats(s);
-    }
-  }, [round]);
+    shownAt.current = Date.now();
+  }, [ex]);
 
-  const submit = () => {
-    let correct = false;
-    let explain = ex.explain;
-    let expected = ex.answer;
-
-    if (ex.type === "fatoracao" && ex.value) {
-      const factors = normalizeFactorsInput(input);
-
-      if (factors.length === 0) {
-        explain = "Formato aceito: 2x2x3, 2 2 3, 2,2,3 ou 2×2×3.";
-      } else if (!factors.every((k) => Number.isInteger(k) && k >= 2)) {
-        explain = "Use apenas inteiros ≥ 2.";
-      } else if (factors.some((k) => !isPrime(k))) {
-        const nonPrimes = factors.filter((k) => !isPrime(k));
-        explain = `Nem todos os fatores são primos (${nonPrimes.join(
-          ", "
-        )}). Dica: fatorar compostos (ex.: 6 = 2x3).`;
-      } else if (productOf(factors) !== ex.value) {
-        const prod = productOf(factors);
-        explain = `O produto dos fatores digitados é ${prod}, mas deve ser ${ex.value}.`;
-      } else {
-        const expectedFactors = ex.expected || primeFactors(ex.value);
-        correct = multisetEqual(factors, expectedFactors);
-        expected = expectedFactors.join(" × ");
-        explain = correct
-          ? `Perfeito! ${ex.value} = ${expected}.`
-          : `Revise: ${ex.value} = ${expected}.`;
-      }
-    } else {
-      const normalized = input.trim().toLowerCase();
-      correct = normalized === ex.answer.toLowerCase();
-    }
+  const startSession = (
+    newSeed: string,
+    newDifficulty: Difficulty = difficulty,
+    newAdaptive: boolean = adaptive
+  ) => {
+    setSearchParams(
+      {
+        seed: newSeed,
+        nivel: newDifficulty,
+        adaptativo: newAdaptive ? "1" : "0",
+        versao: String(GENERATOR_VERSION),
+      },
+      { replace: true }
+    );
+  };
 
-    setFeedback({ correct, explain, expected });
+  const submit = () => {
+    if (feedback || !input.trim()) return; // já respondeu esta rodada
+    const result = checkAnswer(ex, input);
+    // Formato ilegível não conta como erro: só mostra como responder
+    if (result.invalid) return setFormatHint(result.explain);
+    const { correct } = result;
+    setFeedback(result);
+    setFormatHint(null);
+    setStreak((st) => (correct ? Math.max(0, st) + 1 : Math.min(0, st) - 1));
 
-    const s = statsRef.current;
-    s.totalQuestions += 1;
-    s.perTopic[ex.type][correct ? "correct" : "wrong"] += 1;
+    const answeredAt = Date.now();
+    const at = new Date(answeredAt).toISOString();
+    // A série só conta como sessão na primeira resposta (abrir a página ou
+    // trocar o nível não conta)
+    if (round === 1) dispatch({ type: "startSession" });
+    dispatch({
+      type: "recordAnswer",
+      exercise: ex,
+      answer: input,
+      correct,
+      ms: answeredAt - shownAt.current,
+      at,
+    });
     if (correct) {
-      s.correctQuestions += 1;
-      s.xp += 5;
+      dispatch({ type: "awardXp", amount: REWARDS.correctAnswer, at });
       setScore((sc) => sc + 1);
     }
-    saveStats(s);
   };
 
   const next = () => {
     if (round >= 5) {
-      // Encerrar série de 5, dar medalhas
-      const s = statsRef.current;
-      s.bestFiveScore = Math.max(s.bestFiveScore, score);
-      if (score === 5) awardMedal(s, "medal_perfeicao_5_de_5");
-      if (score >= 4) awardMedal(s, "medal_quase_lagrimas");
-      s.xp += score * 3;
-      saveStats(s);
-      setScore(0);
-      setRound(1);
-      setEx(generateExercise());
-      setInput("");
-      setFeedback(null);
+      // Encerrar série de 5 (as medalhas saem do catálogo de conquistas)
+      dispatch({ type: "finishFive", score });
+      dispatch({
+        type: "awardXp",
+        amount: score * REWARDS.fivePerCorrect,
+        at: new Date().toISOString(),
+      });
+      startSession(randomSeed());
       return;
     }
     setRound((r) => r + 1);
-    setEx(generateExercise());
+    setRoundStreak(streak);
+    setRecs(recommendTopics(stats));
     setInput("");
     setFeedback(null);
+    setFormatHint(null);
   };
 
   return (
@@ -981,8 +3076,69 @@ const ExerciciosPage = () => {
         subtitle='Cinco exercícios aleatórios. Ganhe XP, medalhas e identifique pontos fracos.'
       />
       <Card>
-        <div className='text-sm text-slate-600 mb-2'>
-          Rodada {round} de 5 — Pontos: {score}
+        <div className='text-sm text-slate-700 mb-2'>
+          Nível de dificuldade (trocar o nível inicia uma nova série):
+        </div>
+        <div className='grid sm:grid-cols-3 gap-2'>
+          {DIFFICULTIES.map((d) => (
+            <button
+              key={d}
+              onClick={() => d !== difficulty && startSession(seed, d)}
+              className={
+                "text-left rounded-xl border px-3 py-2 transition-colors " +
+                (d === difficulty
+                  ? "bg-indigo-50 border-indigo-300"
+                  : "bg-white border-slate-200 hover:bg-slate-50")
+              }
+            >
+              <div className='text-sm font-medium text-slate-800'>
+                {DIFFICULTY_CONFIG[d].label}
+              </div>
+              <div className='text-xs text-slate-600'>
+                {DIFFICULTY_CONFIG[d].description}
+              </div>
+            </button>
+          ))}
+        </div>
+        <label className='mt-3 flex items-start gap-2 text-sm text-slate-700'>
+          <input
+            type='checkbox'
+            className='mt-1'
+            checked={adaptive}
+            onChange={(e) => startSession(seed, difficulty, e.target.checked)}
+          />
+          <span>
+            Seleção adaptativa: prioriza os tópicos com mais erros (veja o
+            porquê em Progresso) e ajusta o nível conforme a sequência de
+            acertos.
+          </span>
+        </label>
+      </Card>
+      <Card>
+        <div className='text-sm text-slate-600 mb-2 flex flex-wrap items-center justify-between gap-2'>
+          <span>
+            Rodada {round} de 5 — Pontos: {score}
+            {level !== difficulty && (
+              <>
+                {" "}
+                — Nível: {DIFFICULTY_CONFIG[level].label}{" "}
+                {DIFFICULTIES.indexOf(level) > DIFFICULTIES.indexOf(difficulty)
+                  ? "↑"
+                  : "↓"}
+              </>
+            )}
+          </span>
+          {/* No modo adaptativo a série depende do histórico de quem joga:
+              a semente sozinha não reproduz os exercícios */}
+          {adaptive ? (
+            <span title='Os tópicos e o nível seguem o seu histórico; desligue a seleção adaptativa para compartilhar a série'>
+              <Badge>Série adaptativa</Badge>
+            </span>
+          ) : (
+            <span title='Compartilhe a semente para que outra pessoa receba os mesmos exercícios'>
+              Semente: <Badge>{seed}</Badge>
+            </span>
+          )}
         </div>
         <div className='text-slate-800 mb-3'>{ex.prompt}</div>
         <div className='flex items-center gap-2'>
@@ -1000,6 +3156,7 @@ const ExerciciosPage = () => {
             Responder
           </Button>
         </div>
+        <FormatHint text={formatHint} />
         <AnimatePresence>
           {feedback && (
             <motion.div
@@ -1031,47 +3188,603 @@ const ExerciciosPage = () => {
         </div>
       </Card>
 
+      <Card>
+        <div className='text-sm text-slate-700 mb-2'>
+          Começar uma série a partir de uma semente (todos que usarem a mesma
+          semente e o mesmo nível recebem os mesmos exercícios; a série não é
+          adaptativa):
+        </div>
+        <div className='flex items-center gap-2 flex-wrap'>
+          <input
+            className='border rounded-xl px-3 py-2 w-40'
+            placeholder='ex.: turma7a'
+            value={seedInput}
+            onChange={(e) => setSeedInput(e.target.value)}
+            onKeyDown={(e) =>
+              e.key === "Enter" &&
+              seedInput.trim() &&
+              startSession(seedInput.trim(), difficulty, false)
+            }
+          />
+          <Button
+            disabled={!seedInput.trim()}
+            onClick={() => startSession(seedInput.trim(), difficulty, false)}
+          >
+            Começar
+          </Button>
+          <Button onClick={() => startSession(randomSeed())}>
+            Semente aleatória
+          </Button>
+        </div>
+        <p className='text-xs text-slate-500 mt-2'>
+          Link direto: {shareLink}
+          {adaptive &&
+            " (adaptativo: cada aluno recebe exercícios conforme o próprio histórico; use adaptativo=0 para todos receberem os mesmos)"}
+        </p>
+      </Card>
+
+      <Card>
+        <SectionTitle
+          icon={Sparkles}
+          title='Gerador de Exercícios (Livre)'
+          subtitle='Crie novos exercícios a qualquer hora.'
+        />
+        <GeneratorPreview difficulty={difficulty} />
+      </Card>
+    </div>
+  );
+};
+
+// ----------------------------------------------
+// Página: Jogo 5/5 (série de 5 ou desafio cronometrado, via ?modo=)
+// ----------------------------------------------
+const JogoPage = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const timed = searchParams.get("modo") === "desafio";
+  const modes = [
+    { label: "Série de 5", icon: Dice5, active: !timed, params: {} },
+    {
+      label: "Desafio cronometrado",
+      icon: Timer,
+      active: timed,
+      params: { modo: "desafio" },
+    },
+  ];
+  return (
+    <>
+      <div className='mx-auto max-w-3xl px-3 pt-3 flex gap-2'>
+        {modes.map((m) => (
+          <Button
+            key={m.label}
+            className={
+              m.active ? "bg-indigo-600 text-white border-indigo-600" : ""
+            }
+            onClick={() => !m.active && setSearchParams(m.params)}
+          >
+            <span className='inline-flex items-center gap-1'>
+              <m.icon className='w-4 h-4' /> {m.label}
+            </span>
+          </Button>
+        ))}
+      </div>
+      {timed ? <DesafioPage /> : <ExerciciosPage />}
+    </>
+  );
+};
+
+// ----------------------------------------------
+// Desafio cronometrado: o máximo de questões até o tempo acabar
+// ----------------------------------------------
+const CHALLENGE_TICK_MS = 250;
+
+interface ChallengeTally {
+  score: number;
+  correct: number;
+  answered: number;
+  streak: number; // acertos seguidos agora
+  bestStreak: number;
+}
+const EMPTY_TALLY: ChallengeTally = {
+  score: 0,
+  correct: 0,
+  answered: 0,
+  streak: 0,
+  bestStreak: 0,
+};
+
+const DesafioPage = () => {
+  const { stats, dispatch } = useStats();
+  const [difficulty, setDifficulty] = useState<Difficulty>("iniciante");
+  const [duration, setDuration] = useState<ChallengeDuration>(60);
+  // seed null: fora de partida (configurando ou vendo o resultado)
+  const [seed, setSeed] = useState<string | null>(null);
+  const [round, setRound] = useState(1);
+  const [endsAt, setEndsAt] = useState(0);
+  const [now, setNow] = useState(() => Date.now());
+  const [tally, setTally] = useState(EMPTY_TALLY);
+  const [input, setInput] = useState("");
+  const [formatHint, setFormatHint] = useState<string | null>(null);
+  const [last, setLast] = useState<{
+    prompt: string;
+    result: CheckResult;
+    points: AnswerPoints;
+  } | null>(null);
+  const [finished, setFinished] = useState<ChallengeRun | null>(null);
+
+  const playing = seed !== null;
+  const ex = useMemo(
+    () => (seed === null ? null : exerciseFor(seed, round, difficulty)),
+    [seed, round, difficulty]
+  );
+  const shownAt = useRef(Date.now());
+  useEffect(() => {
+    shownAt.current = Date.now();
+  }, [ex]);
+
+  useEffect(() => {
+    if (!playing) return;
+    const id = setInterval(() => setNow(Date.now()), CHALLENGE_TICK_MS);
+    return () => clearInterval(id);
+  }, [playing]);
+
+  const remainingMs = playing ? Math.max(0, endsAt - now) : 0;
+  const timeUp = playing && remainingMs === 0;
+  const key = challengeKey(duration, difficulty);
+
+  // Tempo esgotado: grava a partida no placar deste modo e nível
+  useEffect(() => {
+    if (!timeUp) return;
+    const run: ChallengeRun = {
+      score: tally.score,
+      correct: tally.correct,
+      answered: tally.answered,
+      bestStreak: tally.bestStreak,
+      at: new Date().toISOString(),
+    };
+    dispatch({ type: "finishChallenge", key, run });
+    setFinished(run);
+    setSeed(null);
+  }, [timeUp, tally, key, dispatch]);
+
+  const start = () => {
+    const t = Date.now();
+    setSeed(randomSeed());
+    setRound(1);
+    setEndsAt(t + duration * 1000);
+    setNow(t);
+    setTally(EMPTY_TALLY);
+    setInput("");
+    setFormatHint(null);
+    setLast(null);
+    setFinished(null);
+  };
+
+  const submit = () => {
+    if (!ex || timeUp || !input.trim()) return;
+    const result = checkAnswer(ex, input);
+    if (result.invalid) return setFormatHint(result.explain);
+    setFormatHint(null);
+    const { correct } = result;
+    const answeredAt = Date.now();
+    const ms = answeredAt - shownAt.current;
+    const streak = correct ? tally.streak + 1 : 0;
+    const points = answerPoints(correct, ms, streak);
+    const at = new Date(answeredAt).toISOString();
+
+    dispatch({
+      type: "recordAnswer",
+      exercise: ex,
+      answer: input,
+      correct,
+      ms,
+      at,
+    });
+    if (correct) {
+      dispatch({ type: "awardXp", amount: REWARDS.challengeCorrect, at });
+    }
+    setTally((t) => ({
+      score: t.score + points.total,
+      correct: t.correct + (correct ? 1 : 0),
+      answered: t.answered + 1,
+      streak,
+      bestStreak: Math.max(t.bestStreak, streak),
+    }));
+    setLast({ prompt: ex.prompt, result, points });
+    setRound((r) => r + 1);
+    setInput("");
+  };
+
+  const board = stats.challengeBests[key] ?? [];
+  const seconds = Math.ceil(remainingMs / 1000);
+
+  return (
+    <div className='mx-auto max-w-3xl p-3 space-y-4'>
+      <SectionTitle
+        icon={Timer}
+        title='Desafio cronometrado'
+        subtitle='Responda o máximo que conseguir antes do tempo acabar. Rapidez e sequências dão bônus.'
+      />
+      {!playing && (
+        <Card>
+          <div className='text-sm text-slate-700 mb-2'>Tempo:</div>
+          <div className='flex gap-2 mb-3'>
+            {CHALLENGE_DURATIONS.map((d) => (
+              <Button
+                key={d}
+                className={
+                  d === duration
+                    ? "bg-indigo-600 text-white border-indigo-600"
+                    : ""
+                }
+                onClick={() => setDuration(d)}
+              >
+                {d} s
+              </Button>
+            ))}
+          </div>
+          <div className='text-sm text-slate-700 mb-2'>Nível:</div>
+          <div className='grid sm:grid-cols-3 gap-2'>
+            {DIFFICULTIES.map((d) => (
+              <button
+                key={d}
+                onClick={() => setDifficulty(d)}
+                className={
+                  "text-left rounded-xl border px-3 py-2 transition-colors " +
+                  (d === difficulty
+                    ? "bg-indigo-50 border-indigo-300"
+                    : "bg-white border-slate-200 hover:bg-slate-50")
+                }
+              >
+                <div className='text-sm font-medium text-slate-800'>
+                  {DIFFICULTY_CONFIG[d].label}
+                </div>
+                <div className='text-xs text-slate-600'>
+                  {DIFFICULTY_CONFIG[d].description}
+                </div>
+              </button>
+            ))}
+          </div>
+          <div className='mt-4'>
+            <Button
+              className='bg-indigo-600 text-zinc-800 border-indigo-600'
+              onClick={start}
+            >
+              {finished ? "Jogar de novo" : "Começar"}
+            </Button>
+          </div>
+        </Card>
+      )}
+
+      {playing && ex && (
+        <Card>
+          <div className='text-sm text-slate-600 mb-2 flex items-center justify-between gap-2'>
+            <span>
+              Pontos: <strong>{tally.score}</strong> — Acertos: {tally.correct}/
+              {tally.answered}
+              {tally.streak > 1 && ` — 🔥 ${tally.streak} seguidos`}
+            </span>
+            <span
+              className={
+                "font-mono text-lg " +
+                (seconds <= 10 ? "text-rose-600" : "text-slate-800")
+              }
+            >
+              {seconds}s
+            </span>
+          </div>
+          <div className='h-1.5 mb-3 rounded-full bg-slate-100 overflow-hidden'>
+            <div
+              className='h-full bg-indigo-500'
+              style={{ width: `${(remainingMs / (duration * 1000)) * 100}%` }}
+            />
+          </div>
+          <div className='text-slate-800 mb-3'>{ex.prompt}</div>
+          <div className='flex items-center gap-2'>
+            <input
+              autoFocus
+              className='border rounded-xl px-3 py-2 w-full'
+              placeholder='Sua resposta (Enter envia)'
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && submit()}
+            />
+            <Button
+              className='bg-indigo-600 text-zinc-800 border-indigo-600'
+              onClick={submit}
+            >
+              Responder
+            </Button>
+          </div>
+          <FormatHint text={formatHint} />
+          {last && (
+            <div
+              className={`mt-3 text-sm flex items-start gap-2 ${
+                last.result.correct ? "text-emerald-700" : "text-rose-700"
+              }`}
+            >
+              {last.result.correct ? (
+                <CheckCircle2 className='w-4 h-4 mt-0.5' />
+              ) : (
+                <XCircle className='w-4 h-4 mt-0.5' />
+              )}
+              <div>
+                {last.result.correct
+                  ? `+${last.points.base}` +
+                    (last.points.speed
+                      ? ` +${last.points.speed} rapidez`
+                      : "") +
+                    (last.points.streak
+                      ? ` +${last.points.streak} sequência`
+                      : "")
+                  : `${last.prompt} Resposta esperada: ${String(
+                      last.result.expected
+                    ).toUpperCase()}.`}
+              </div>
+            </div>
+          )}
+        </Card>
+      )}
+
+      {finished && (
+        <Card>
+          <SectionTitle
+            icon={Trophy}
+            title={`Fim do tempo: ${finished.score} pontos`}
+            subtitle={`${finished.correct} acertos em ${finished.answered} respostas; maior sequência: ${finished.bestStreak}.`}
+          />
+          {board[0]?.at === finished.at && finished.score > 0 && (
+            <p className='text-sm text-emerald-700'>🎉 Novo recorde pessoal!</p>
+          )}
+        </Card>
+      )}
+
       <Card>
         <SectionTitle
-          icon={Sparkles}
-          title='Gerador de Exercícios (Livre)'
-          subtitle='Crie novos exercícios a qualquer hora.'
+          icon={Trophy}
+          title='Seus recordes'
+          subtitle={`${duration} s — ${DIFFICULTY_CONFIG[difficulty].label}`}
         />
-        <GeneratorPreview />
+        {board.length === 0 ? (
+          <p className='text-sm text-slate-600'>
+            Nenhuma partida neste modo ainda.
+          </p>
+        ) : (
+          <table className='text-sm w-full'>
+            <thead>
+              <tr className='text-left text-slate-500'>
+                <th className='font-normal'>#</th>
+                <th className='font-normal'>Pontos</th>
+                <th className='font-normal'>Acertos</th>
+                <th className='font-normal'>Sequência</th>
+                <th className='font-normal'>Data</th>
+              </tr>
+            </thead>
+            <tbody>
+              {board.map((r, i) => (
+                <tr
+                  key={r.at}
+                  className={
+                    "border-t text-slate-700 " +
+                    (r.at === finished?.at ? "bg-amber-50 font-medium" : "")
+                  }
+                >
+                  <td className='py-1 pr-2'>{i + 1}</td>
+                  <td className='py-1 pr-2'>{r.score}</td>
+                  <td className='py-1 pr-2'>
+                    {r.correct}/{r.answered}
+                  </td>
+                  <td className='py-1 pr-2'>{r.bestStreak}</td>
+                  <td className='py-1'>
+                    {new Date(r.at).toLocaleString("pt-BR")}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
       </Card>
     </div>
   );
 };
 
-const GeneratorPreview = () => {
+interface GeneratorPreviewProps {
+  difficulty: Difficulty;
+}
+const GeneratorPreview = ({ difficulty }: GeneratorPreviewProps) => {
   const [items, setItems] = useState(() =>
-    Array.from({ length: 3 }, generateExercise)
+    Array.from({ length: 3 }, () => generateExercise(Math.random, difficulty))
   );
   return (
     <div className='space-y-2'>
       {items.map((ex, i) => (
         <div key={i} className='text-sm text-slate-700 border rounded-xl p-3'>
           <div className='font-medium text-slate-800'>{ex.prompt}</div>
-          <div className='text-slate-600 mt-1'>Gabarito: {ex.answer}</div>
+          <div className='text-slate-600 mt-1'>
+            Gabarito: {expectedAnswer(ex)}
+          </div>
           <div className='text-slate-500 text-xs mt-1'>{ex.explain}</div>
         </div>
       ))}
-      <Button onClick={() => setItems((arr) => [generateExercise(), ...arr])}>
+      <Button
+        onClick={() =>
+          setItems((arr) => [generateExercise(Math.random, difficulty), ...arr])
+        }
+      >
         Gerar mais
       </Button>
     </div>
   );
 };
 
+// ----------------------------------------------
+// Página: Revisão (fila de exercícios errados)
+// ----------------------------------------------
+const RevisaoPage = () => {
+  const { stats, dispatch } = useStats();
+  const queue = stats.reviewQueue;
+  const [current, setCurrent] = useState<ReviewItem | null>(
+    () => dueReviews(queue)[0] ?? null
+  );
+  const [input, setInput] = useState("");
+  const [feedback, setFeedback] = useState<CheckResult | null>(null);
+  const [formatHint, setFormatHint] = useState<string | null>(null);
+  const shownAt = useRef(Date.now());
+  useEffect(() => {
+    shownAt.current = Date.now();
+  }, [current]);
+
+  const due = dueReviews(queue);
+  const dueByTopic = TYPES.map((t) => ({
+    topic: t,
+    count: due.filter((i) => i.exercise.type === t).length,
+  })).filter((d) => d.count > 0);
+  const upcoming = queue
+    .filter((i) => !due.includes(i))
+    .sort((a, b) => Date.parse(a.due) - Date.parse(b.due));
+
+  const submit = () => {
+    if (!current || feedback || !input.trim()) return;
+    const result = checkAnswer(current.exercise, input);
+    // Formato ilegível não derruba o item para a caixa 1
+    if (result.invalid) return setFormatHint(result.explain);
+    const { correct } = result;
+    setFeedback(result);
+    setFormatHint(null);
+
+    // recordAnswer também move o item entre as caixas
+    const answeredAt = Date.now();
+    const at = new Date(answeredAt).toISOString();
+    dispatch({
+      type: "recordAnswer",
+      exercise: current.exercise,
+      answer: input,
+      correct,
+      ms: answeredAt - shownAt.current,
+      at,
+    });
+    if (correct) {
+      dispatch({ type: "awardXp", amount: REWARDS.reviewCorrect, at });
+    }
+  };
+
+  const next = () => {
+    setCurrent(dueReviews(queue)[0] ?? null);
+    setInput("");
+    setFeedback(null);
+    setFormatHint(null);
+  };
+
+  const updated = current && queue.find((i) => i.key === current.key);
+
+  return (
+    <div className='mx-auto max-w-3xl p-3 space-y-4'>
+      <SectionTitle
+        icon={RotateCcw}
+        title='Revisão'
+        subtitle='Refaça exatamente as questões que você errou, em intervalos crescentes.'
+      />
+      <div className='flex flex-wrap gap-2'>
+        <Badge>Para hoje: {due.length}</Badge>
+        {dueByTopic.map((d) => (
+          <Badge key={d.topic}>
+            {d.topic}: {d.count}
+          </Badge>
+        ))}
+        <Badge>Agendadas: {upcoming.length}</Badge>
+      </div>
+      <Card>
+        {!current ? (
+          <p className='text-sm text-slate-700'>
+            Nada para revisar agora. Erros no Jogo 5/5 entram nesta fila
+            automaticamente.
+          </p>
+        ) : (
+          <>
+            <div className='text-sm text-slate-600 mb-2'>
+              Caixa {current.box} de {REVIEW_INTERVALS_DAYS.length} — errada{" "}
+              {current.lapses} {current.lapses === 1 ? "vez" : "vezes"}
+            </div>
+            <div className='text-slate-800 mb-3'>{current.exercise.prompt}</div>
+            <div className='flex items-center gap-2'>
+              <input
+                className='border rounded-xl px-3 py-2 w-full'
+                placeholder='Sua resposta'
+                value={input}
+                onChange={(e) => setInput(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && submit()}
+              />
+              <Button
+                className='bg-indigo-600 text-zinc-800 border-indigo-600'
+                onClick={submit}
+              >
+                Responder
+              </Button>
+            </div>
+            <FormatHint text={formatHint} />
+            <AnimatePresence>
+              {feedback && (
+                <motion.div
+                  initial={{ opacity: 0, y: -8 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  exit={{ opacity: 0, y: -8 }}
+                  className={`mt-3 text-sm flex items-start gap-2 ${
+                    feedback.correct ? "text-emerald-700" : "text-rose-700"
+                  }`}
+                >
+                  {feedback.correct ? (
+                    <CheckCircle2 className='w-4 h-4 mt-0.5' />
+                  ) : (
+                    <XCircle className='w-4 h-4 mt-0.5' />
+                  )}
+                  <div>
+                    {feedback.correct
+                      ? updated
+                        ? `Correto! Volta na caixa ${updated.box} em ${
+                            REVIEW_INTERVALS_DAYS[updated.box - 1]
+                          } dia(s).`
+                        : "Correto! Questão dominada e retirada da fila."
+                      : `Incorreto. Resposta esperada: ${feedback.expected.toUpperCase()}. Volta para a caixa 1.`}
+                    <div className='text-slate-600 mt-1'>
+                      {feedback.explain}
+                    </div>
+                  </div>
+                </motion.div>
+              )}
+            </AnimatePresence>
+            <div className='mt-4 flex items-center gap-2'>
+              <Button onClick={next}>Próximo</Button>
+            </div>
+          </>
+        )}
+      </Card>
+      {upcoming.length > 0 && (
+        <Card>
+          <div className='text-sm text-slate-700 mb-2'>Próximas revisões:</div>
+          <div className='space-y-1'>
+            {upcoming.map((i) => (
+              <div
+                key={i.key}
+                className='text-xs text-slate-600 flex justify-between gap-2'
+              >
+                <span>{i.exercise.prompt}</span>
+                <span className='whitespace-nowrap'>
+                  caixa {i.box} · {new Date(i.due).toLocaleDateString("pt-BR")}
+                </span>
+              </div>
+            ))}
+          </div>
+        </Card>
+      )}
+    </div>
+  );
+};
+
 // ----------------------------------------------
 // Página: Progresso (dashboard simples)
 // ----------------------------------------------
 const ProgressoPage = () => {
-  const [stats, setStats] = useState(loadStats());
-  useEffect(() => {
-    const i = setInterval(() => setStats(loadStats()), 1000);
-    return () => clearInterval(i);
-  }, []);
+  const { stats } = useStats();
+  const student = activeProfile(useProfiles().profiles);
 
   const data = useMemo(() => {
     const pt = stats.perTopic;
@@ -1082,15 +3795,33 @@ const ProgressoPage = () => {
     }));
   }, [stats]);
 
+  const recommendations = useMemo(() => recommendTopics(stats), [stats]);
+  const [period, setPeriod] = useState<Period>("dia");
+  const accuracy = useMemo(
+    () => accuracyOverTime(stats.history, period),
+    [stats.history, period]
+  );
+  const xpData = useMemo(() => xpOverTime(stats.xpByDay), [stats.xpByDay]);
+
   return (
     <div className='mx-auto max-w-6xl p-3 space-y-4'>
       <SectionTitle
         icon={Trophy}
         title='Progresso'
-        subtitle='Resumo simples; pronto para virar um dashboard completo no futuro.'
+        subtitle='Acertos por tópico, evolução do XP e atividade dos últimos dias.'
       />
       <div className='grid md:grid-cols-2 gap-4'>
         <Card>
+          <div className='flex items-center gap-2 mb-2'>
+            <span className='text-2xl'>{student.avatar ?? "👤"}</span>
+            <div>
+              <div className='font-medium text-slate-800'>{student.name}</div>
+              <div className='text-xs text-slate-500'>
+                Perfil desde{" "}
+                {new Date(student.createdAt).toLocaleDateString("pt-BR")}
+              </div>
+            </div>
+          </div>
           <div className='text-sm text-slate-700'>XP total: {stats.xp}</div>
           <div className='text-sm text-slate-700'>
             Sessões: {stats.sessions}
@@ -1112,7 +3843,7 @@ const ProgressoPage = () => {
                   animate={{ scale: 1 }}
                   className='px-2 py-1 rounded-xl bg-amber-50 border border-amber-200 text-amber-700 text-xs'
                 >
-                  {m}
+                  {achievementById(m)?.icon} {medalTitle(m)}
                 </motion.span>
               ))}
             </div>
@@ -1134,18 +3865,707 @@ const ProgressoPage = () => {
           </div>
         </Card>
       </div>
+      <Card>
+        <div className='flex items-start justify-between gap-2 flex-wrap'>
+          <SectionTitle
+            icon={Sparkles}
+            title='Evolução do acerto'
+            subtitle='Porcentagem de acertos por tópico ao longo do tempo.'
+          />
+          <div className='flex gap-1'>
+            {(["dia", "semana"] as const).map((p) => (
+              <Button
+                key={p}
+                className={
+                  period === p
+                    ? "bg-indigo-600 text-white border-indigo-600"
+                    : ""
+                }
+                onClick={() => setPeriod(p)}
+              >
+                Por {p}
+              </Button>
+            ))}
+          </div>
+        </div>
+        {accuracy.length === 0 ? (
+          <p className='text-sm text-slate-600'>
+            Responda exercícios no Jogo 5/5 ou na Revisão para ver a evolução.
+          </p>
+        ) : (
+          <div className='h-64'>
+            <ResponsiveContainer width='100%' height='100%'>
+              <LineChart data={accuracy}>
+                <CartesianGrid strokeDasharray='3 3' />
+                <XAxis dataKey='periodo' tickFormatter={shortDate} />
+                <YAxis domain={[0, 100]} unit='%' />
+                <Tooltip labelFormatter={(d) => shortDate(String(d))} />
+                <Legend />
+                {TYPES.map((t) => (
+                  <Line
+                    key={t}
+                    dataKey={t}
+                    stroke={TOPIC_COLORS[t]}
+                    connectNulls
+                    dot={{ r: 3 }}
+                  />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        )}
+      </Card>
+      <div className='grid md:grid-cols-2 gap-4'>
+        <Card>
+          <SectionTitle
+            icon={Star}
+            title='XP ao longo do tempo'
+            subtitle='Total acumulado nos dias em que você ganhou XP.'
+          />
+          {xpData.length === 0 ? (
+            <p className='text-sm text-slate-600'>
+              Nenhum XP registrado ainda.
+            </p>
+          ) : (
+            <div className='h-48'>
+              <ResponsiveContainer width='100%' height='100%'>
+                <LineChart data={xpData}>
+                  <CartesianGrid strokeDasharray='3 3' />
+                  <XAxis dataKey='dia' tickFormatter={shortDate} />
+                  <YAxis />
+                  <Tooltip labelFormatter={(d) => shortDate(String(d))} />
+                  <Line dataKey='total' name='XP total' stroke='#6366f1' />
+                  <Line dataKey='XP' name='XP do dia' stroke='#f59e0b' />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          )}
+        </Card>
+        <Card>
+          <SectionTitle
+            icon={Dice5}
+            title='Atividade diária'
+            subtitle='Respostas por dia nas últimas semanas.'
+          />
+          <ActivityHeatmap history={stats.history} />
+        </Card>
+      </div>
+      <TodayCard />
+      <AchievementsCard />
       <Card>
         <SectionTitle
           icon={Brain}
           title='Próximos passos'
-          subtitle='Pontos fortes, fracos e recomendações automáticas (futuro).'
+          subtitle='Tópicos recomendados pela seleção adaptativa do Jogo 5/5.'
         />
-        <p className='text-sm text-slate-700'>
-          Este painel pode evoluir para sugerir exercícios sob medida com base
-          no histórico (armazenado localmente). Por ora, use os gráficos e
-          contagens para identificar tópicos com mais erros.
-        </p>
+        <div className='space-y-2'>
+          {recommendations.map((r) => (
+            <div key={r.topic} className='text-sm text-slate-700'>
+              <div className='flex items-center justify-between gap-2'>
+                <span className='font-medium text-slate-800'>{r.topic}</span>
+                <span className='text-xs text-slate-500'>
+                  {Math.round(r.share * 100)}% das questões
+                </span>
+              </div>
+              <div className='h-1.5 rounded-full bg-slate-100 overflow-hidden'>
+                <div
+                  className='h-full bg-indigo-400'
+                  style={{ width: `${Math.round(r.share * 100)}%` }}
+                />
+              </div>
+              <div className='text-xs text-slate-600 mt-0.5'>
+                Por quê: {r.reasons.join("; ")}.
+              </div>
+            </div>
+          ))}
+        </div>
+      </Card>
+      <ProgressTransferCard />
+    </div>
+  );
+};
+
+const TOPIC_COLORS: Record<ExerciseType, string> = {
+  divisibilidade: "#6366f1",
+  primos: "#f59e0b",
+  fatoracao: "#10b981",
+  potenciacao: "#ec4899",
+  resto: "#0ea5e9",
+  mdc_mmc: "#8b5cf6",
+  divisao: "#14b8a6",
+};
+
+// "2025-09-15" → "15/09"
+const shortDate = (day: string) => `${day.slice(8, 10)}/${day.slice(5, 7)}`;
+
+const HEATMAP_WEEKS = 12;
+const WEEKDAYS = ["seg", "ter", "qua", "qui", "sex", "sáb", "dom"];
+
+const heatColor = (count: number) =>
+  count === 0
+    ? "bg-slate-100"
+    : count < 3
+    ? "bg-emerald-200"
+    : count < 6
+    ? "bg-emerald-400"
+    : "bg-emerald-600";
+
+interface ActivityHeatmapProps {
+  history: Stats["history"];
+}
+const ActivityHeatmap = ({ history }: ActivityHeatmapProps) => {
+  const weeks = useMemo(
+    () => activityCalendar(history, HEATMAP_WEEKS),
+    [history]
+  );
+  return (
+    <div className='flex gap-1'>
+      <div className='grid grid-rows-7 gap-1 text-[10px] text-slate-500 pr-1'>
+        {WEEKDAYS.map((d) => (
+          <span key={d} className='h-3.5 leading-[14px]'>
+            {d}
+          </span>
+        ))}
+      </div>
+      {weeks.map((week) => (
+        <div key={week[0]?.day} className='grid grid-rows-7 gap-1'>
+          {week.map((d) => (
+            <div
+              key={d.day}
+              title={`${shortDate(d.day)}: ${d.count} resposta${
+                d.count === 1 ? "" : "s"
+              }`}
+              className={`w-3.5 h-3.5 rounded-sm ${heatColor(d.count)}`}
+            />
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+// ----------------------------------------------
+// Hoje: metas diárias, sequência e nível
+// ----------------------------------------------
+const TodayCard = () => {
+  const { stats } = useStats();
+  const today = dayKey(new Date());
+  const view = streakView(stats.streak, today);
+  const info = levelInfo(stats.xp);
+  const goalsDone = stats.goalDays.includes(today);
+  return (
+    <Card>
+      <SectionTitle
+        icon={Star}
+        title='Metas de hoje'
+        subtitle={
+          goalsDone
+            ? `Todas cumpridas! Bônus de ${REWARDS.dailyGoals} XP recebido.`
+            : `Cumpra todas para ganhar ${REWARDS.dailyGoals} XP de bônus.`
+        }
+      />
+      <div className='grid md:grid-cols-2 gap-4'>
+        <div className='space-y-2'>
+          {DAILY_GOALS.map((g) => {
+            const value = Math.min(g.target, g.progress(stats, today));
+            return (
+              <div key={g.id} className='text-sm text-slate-700'>
+                <div className='flex justify-between gap-2'>
+                  <span>
+                    {value >= g.target ? "✅" : "⬜"} {g.title}
+                  </span>
+                  <span className='text-xs text-slate-500'>
+                    {value}/{g.target}
+                  </span>
+                </div>
+                <div className='h-1.5 rounded-full bg-slate-100 overflow-hidden'>
+                  <div
+                    className='h-full bg-emerald-400'
+                    style={{ width: `${(value / g.target) * 100}%` }}
+                  />
+                </div>
+              </div>
+            );
+          })}
+        </div>
+        <div className='text-sm text-slate-700 space-y-1'>
+          <div>
+            🔥 Sequência: <strong>{view.current}</strong> dia
+            {view.current === 1 ? "" : "s"} (recorde: {stats.streak.best})
+          </div>
+          <div>
+            🧊 Proteções: {view.freezes} — ganhe uma a cada {FREEZE_EVERY_DAYS}{" "}
+            dias seguidos; cada uma cobre um dia sem prática.
+          </div>
+          {view.freezesAtRisk > 0 && (
+            <div className='text-amber-700'>
+              Você pulou {view.freezesAtRisk} dia(s): pratique hoje e as
+              proteções mantêm a sequência.
+            </div>
+          )}
+          <div>
+            ⭐ Nível {info.level}: {info.xpInLevel}/{info.xpForNext} XP para o
+            próximo.
+          </div>
+        </div>
+      </div>
+    </Card>
+  );
+};
+
+// ----------------------------------------------
+// Conquistas: catálogo com bloqueadas, desbloqueadas e progresso
+// ----------------------------------------------
+const AchievementsCard = () => {
+  const { stats } = useStats();
+  const unlockedCount = ACHIEVEMENTS.filter((a) =>
+    stats.medals.includes(a.id)
+  ).length;
+  return (
+    <Card>
+      <SectionTitle
+        icon={Trophy}
+        title='Conquistas'
+        subtitle={`${unlockedCount} de ${ACHIEVEMENTS.length} desbloqueadas.`}
+      />
+      <div className='grid sm:grid-cols-2 md:grid-cols-3 gap-2'>
+        {ACHIEVEMENTS.map((a) => {
+          const earnedAt = stats.achievements[a.id];
+          const unlocked = stats.medals.includes(a.id) || isUnlocked(a, stats);
+          const { current, target } = a.progress(stats);
+          const pct = unlocked ? 100 : Math.min(100, (current / target) * 100);
+          return (
+            <div
+              key={a.id}
+              className={
+                "rounded-xl border p-2 text-sm " +
+                (unlocked
+                  ? "bg-amber-50 border-amber-200"
+                  : "bg-slate-50 border-slate-200 text-slate-500")
+              }
+            >
+              <div className='flex items-center gap-2'>
+                <span className={"text-xl " + (unlocked ? "" : "grayscale")}>
+                  {a.icon}
+                </span>
+                <span
+                  className={
+                    "font-medium " +
+                    (unlocked ? "text-amber-800" : "text-slate-600")
+                  }
+                >
+                  {a.title}
+                </span>
+              </div>
+              <div className='text-xs mt-1'>{a.description}</div>
+              <div className='h-1.5 mt-2 rounded-full bg-white border overflow-hidden'>
+                <div
+                  className={
+                    "h-full " + (unlocked ? "bg-amber-400" : "bg-indigo-300")
+                  }
+                  style={{ width: `${pct}%` }}
+                />
+              </div>
+              <div className='text-xs mt-1'>
+                {unlocked
+                  ? earnedAt
+                    ? `Desbloqueada em ${new Date(earnedAt).toLocaleDateString(
+                        "pt-BR"
+                      )}`
+                    : "Desbloqueada"
+                  : `${Math.min(current, target)}/${target}`}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </Card>
+  );
+};
+
+// Aviso flutuante de conquista (aparece em qualquer página)
+const UNLOCK_TOAST_MS = 4000;
+
+const AchievementToasts = () => {
+  const { unlocks, dismissUnlock } = useStats();
+  const first = unlocks[0];
+
+  useEffect(() => {
+    if (!first) return;
+    const id = setTimeout(() => dismissUnlock(first.id), UNLOCK_TOAST_MS);
+    return () => clearTimeout(id);
+  }, [first, dismissUnlock]);
+
+  return (
+    <div className='fixed bottom-4 right-4 z-20'>
+      <AnimatePresence>
+        {first && (
+          <motion.button
+            key={first.id}
+            initial={{ opacity: 0, y: 20, scale: 0.9 }}
+            animate={{ opacity: 1, y: 0, scale: 1 }}
+            exit={{ opacity: 0, y: 20 }}
+            onClick={() => dismissUnlock(first.id)}
+            className='flex items-center gap-3 rounded-2xl border border-amber-200 bg-amber-50 px-4 py-3 shadow-lg text-left'
+          >
+            <span className='text-3xl'>{first.icon}</span>
+            <span>
+              <span className='block text-xs text-amber-700'>
+                Conquista desbloqueada!
+              </span>
+              <span className='block font-semibold text-amber-900'>
+                {first.title}
+              </span>
+              <span className='block text-xs text-amber-800'>
+                {first.description}
+              </span>
+            </span>
+          </motion.button>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
+
+// ----------------------------------------------
+// Backup: exportar e importar o progresso do perfil ativo
+// ----------------------------------------------
+const ProgressTransferCard = () => {
+  const { stats, dispatch } = useStats();
+  const student = activeProfile(useProfiles().profiles);
+  const [imported, setImported] = useState<ImportedProgress | null>(null);
+  const [mode, setMode] = useState<"merge" | "replace">("merge");
+  const [error, setError] = useState<string | null>(null);
+  const [done, setDone] = useState(false);
+  const [fileInputKey, setFileInputKey] = useState(0);
+
+  const download = () => {
+    const text = exportProgress(stats, {
+      name: student.name,
+      ...(student.avatar ? { avatar: student.avatar } : {}),
+    });
+    downloadFile(text, exportFileName(student.name), "application/json");
+  };
+
+  const onFile = async (file: File) => {
+    setDone(false);
+    try {
+      setImported(parseProgressFile(await file.text()));
+      setError(null);
+    } catch (e) {
+      setImported(null);
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const reset = () => {
+    setImported(null);
+    setFileInputKey((k) => k + 1);
+  };
+
+  const result =
+    imported &&
+    (mode === "merge" ? mergeStats(stats, imported.stats) : imported.stats);
+  const changes = result ? summarizeChanges(stats, result) : [];
+
+  const confirm = () => {
+    if (!result) return;
+    dispatch({ type: "replace", stats: result });
+    setDone(true);
+    reset();
+  };
+
+  return (
+    <Card>
+      <SectionTitle
+        icon={Download}
+        title='Backup do progresso'
+        subtitle={`Leve o progresso de ${student.name} para outro navegador.`}
+      />
+      <div className='flex items-center gap-2 flex-wrap'>
+        <Button onClick={download}>
+          <span className='inline-flex items-center gap-1'>
+            <Download className='w-4 h-4' /> Exportar arquivo
+          </span>
+        </Button>
+        <label className='px-3 py-2 rounded-xl shadow-sm border bg-white hover:shadow cursor-pointer text-sm inline-flex items-center gap-1'>
+          <Upload className='w-4 h-4' /> Importar arquivo
+          <input
+            key={fileInputKey}
+            type='file'
+            accept='application/json,.json'
+            className='hidden'
+            onChange={(e) => e.target.files?.[0] && onFile(e.target.files[0])}
+          />
+        </label>
+      </div>
+      {error && <p className='mt-2 text-sm text-rose-700'>{error}</p>}
+      {done && (
+        <p className='mt-2 text-sm text-emerald-700'>Progresso importado.</p>
+      )}
+      {imported && (
+        <div className='mt-3 space-y-2'>
+          <p className='text-sm text-slate-700'>
+            Arquivo de <strong>{imported.profile.name || "sem nome"}</strong>
+            {imported.exportedAt &&
+              `, exportado em ${new Date(imported.exportedAt).toLocaleString(
+                "pt-BR"
+              )}`}
+            .
+          </p>
+          <div className='flex gap-4 text-sm text-slate-700'>
+            <label className='inline-flex items-center gap-1'>
+              <input
+                type='radio'
+                checked={mode === "merge"}
+                onChange={() => setMode("merge")}
+              />
+              Mesclar (soma contadores, une medalhas)
+            </label>
+            <label className='inline-flex items-center gap-1'>
+              <input
+                type='radio'
+                checked={mode === "replace"}
+                onChange={() => setMode("replace")}
+              />
+              Substituir o progresso atual
+            </label>
+          </div>
+          {changes.length === 0 ? (
+            <p className='text-sm text-slate-600'>Nada muda.</p>
+          ) : (
+            <table className='text-sm w-full'>
+              <thead>
+                <tr className='text-left text-slate-500'>
+                  <th className='font-normal'>Item</th>
+                  <th className='font-normal'>Agora</th>
+                  <th className='font-normal'>Depois</th>
+                </tr>
+              </thead>
+              <tbody>
+                {changes.map((c) => (
+                  <tr key={c.label} className='border-t text-slate-700'>
+                    <td className='py-1 pr-2'>{c.label}</td>
+                    <td className='py-1 pr-2'>{c.before}</td>
+                    <td className='py-1 font-medium'>{c.after}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          <div className='flex gap-2'>
+            <Button
+              className='bg-indigo-600 text-zinc-800 border-indigo-600'
+              onClick={confirm}
+            >
+              Confirmar importação
+            </Button>
+            <Button onClick={reset}>Cancelar</Button>
+          </div>
+        </div>
+      )}
+    </Card>
+  );
+};
+
+// ----------------------------------------------
+// Página: Turma (relatório do professor a partir dos arquivos dos alunos)
+// ----------------------------------------------
+interface LoadedStudent extends StudentProgress {
+  id: number;
+  fileName: string;
+}
+
+const TurmaPage = () => {
+  const [students, setStudents] = useState<LoadedStudent[]>([]);
+  const [errors, setErrors] = useState<{ fileName: string; message: string }[]>(
+    []
+  );
+  const [fileInputKey, setFileInputKey] = useState(0);
+  const nextId = useRef(0);
+
+  const onFiles = async (files: File[]) => {
+    const loaded: LoadedStudent[] = [];
+    const failed: { fileName: string; message: string }[] = [];
+    for (const file of files) {
+      try {
+        const { profile, stats } = parseProgressFile(await file.text());
+        loaded.push({
+          id: nextId.current++,
+          fileName: file.name,
+          name: profile.name || file.name.replace(/\.json$/i, ""),
+          stats,
+        });
+      } catch (e) {
+        failed.push({
+          fileName: file.name,
+          message: e instanceof Error ? e.message : String(e),
+        });
+      }
+    }
+    setStudents((prev) => [...prev, ...loaded]);
+    setErrors(failed);
+    setFileInputKey((k) => k + 1);
+  };
+
+  const report = useMemo(() => buildClassReport(students), [students]);
+
+  const chartData = report.topics.map((t) => ({
+    topico: t.topic,
+    Acerto: t.accuracy === null ? 0 : Math.round(t.accuracy * 100),
+  }));
+
+  const downloadCsv = () =>
+    // BOM para o Excel reconhecer os acentos (UTF-8)
+    downloadFile(
+      "\ufeff" + classReportCsv(report),
+      reportFileName(),
+      "text/csv;charset=utf-8"
+    );
+
+  return (
+    <div className='mx-auto max-w-6xl p-3 space-y-4'>
+      <SectionTitle
+        icon={Users}
+        title='Relatório da turma'
+        subtitle='Carregue os arquivos exportados pelos alunos (Progresso → Exportar arquivo). Nada é salvo neste aparelho.'
+      />
+      <Card>
+        <div className='flex items-center gap-2 flex-wrap'>
+          <label className='px-3 py-2 rounded-xl shadow-sm border bg-white hover:shadow cursor-pointer text-sm inline-flex items-center gap-1'>
+            <Upload className='w-4 h-4' /> Carregar arquivos
+            <input
+              key={fileInputKey}
+              type='file'
+              accept='application/json,.json'
+              multiple
+              className='hidden'
+              onChange={(e) => onFiles([...(e.target.files ?? [])])}
+            />
+          </label>
+          <Button onClick={downloadCsv} disabled={students.length === 0}>
+            <span className='inline-flex items-center gap-1'>
+              <Download className='w-4 h-4' /> Exportar CSV
+            </span>
+          </Button>
+          {students.length > 0 && (
+            <Button onClick={() => setStudents([])}>Limpar</Button>
+          )}
+          <Badge>
+            {students.length} aluno{students.length === 1 ? "" : "s"}
+          </Badge>
+        </div>
+        {errors.length > 0 && (
+          <ul className='mt-2 text-sm text-rose-700'>
+            {errors.map((e) => (
+              <li key={e.fileName}>
+                {e.fileName}: {e.message}
+              </li>
+            ))}
+          </ul>
+        )}
       </Card>
+      {students.length > 0 && (
+        <>
+          <div className='grid md:grid-cols-2 gap-4'>
+            <Card>
+              <SectionTitle
+                icon={Brain}
+                title='Tópicos mais fracos'
+                subtitle='Acerto da turma em cada tópico, do menor para o maior.'
+              />
+              <div className='space-y-2'>
+                {report.topics.map((t, i) => (
+                  <div key={t.topic} className='text-sm text-slate-700'>
+                    <div className='flex items-center justify-between gap-2'>
+                      <span className='font-medium text-slate-800'>
+                        {i + 1}. {t.topic}
+                      </span>
+                      <span className='text-xs text-slate-500'>
+                        {percentLabel(t.accuracy)} de {t.correct + t.wrong}{" "}
+                        respostas
+                      </span>
+                    </div>
+                    {t.struggling.length > 0 && (
+                      <div className='text-xs text-slate-600 mt-0.5'>
+                        Abaixo de 60%: {t.struggling.join(", ")}.
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </Card>
+            <Card>
+              <div className='h-60'>
+                <ResponsiveContainer width='100%' height='100%'>
+                  <BarChart data={chartData}>
+                    <CartesianGrid strokeDasharray='3 3' />
+                    <XAxis dataKey='topico' />
+                    <YAxis domain={[0, 100]} unit='%' />
+                    <Tooltip />
+                    <Bar dataKey='Acerto' />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            </Card>
+          </div>
+          <Card>
+            <table className='text-sm w-full'>
+              <thead>
+                <tr className='text-left text-slate-500'>
+                  <th className='font-normal'>Aluno</th>
+                  <th className='font-normal'>XP</th>
+                  <th className='font-normal'>Acerto</th>
+                  <th className='font-normal'>Melhor 5/5</th>
+                  <th className='font-normal'>Medalhas</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {students.map((s, i) => {
+                  const row = report.students[i];
+                  return (
+                    <tr key={s.id} className='border-t text-slate-700'>
+                      <td className='py-1 pr-2'>
+                        <div className='font-medium'>{row.name}</div>
+                        <div className='text-xs text-slate-500'>
+                          {s.fileName}
+                        </div>
+                      </td>
+                      <td className='py-1 pr-2'>{row.xp}</td>
+                      <td className='py-1 pr-2'>
+                        {percentLabel(row.accuracy)} ({row.totalQuestions})
+                      </td>
+                      <td className='py-1 pr-2'>{row.bestFiveScore}</td>
+                      <td className='py-1 pr-2'>
+                        <div className='flex flex-wrap gap-1'>
+                          {row.medals.length === 0 && <Badge>—</Badge>}
+                          {row.medals.map((m) => (
+                            <Badge key={m}>{medalTitle(m)}</Badge>
+                          ))}
+                        </div>
+                      </td>
+                      <td className='py-1 text-right'>
+                        <button
+                          title='Remover do relatório'
+                          className='p-1 rounded-lg hover:bg-slate-100'
+                          onClick={() =>
+                            setStudents((prev) =>
+                              prev.filter((p) => p.id !== s.id)
+                            )
+                          }
+                        >
+                          <X className='w-4 h-4 text-slate-500' />
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </Card>
+        </>
+      )}
     </div>
   );
 };
@@ -1155,22 +4575,30 @@ const ProgressoPage = () => {
 // ----------------------------------------------
 export default function App() {
   return (
-    <HashRouter>
-      <div className='min-h-screen bg-gradient-to-b from-slate-50 to-white text-slate-800'>
-        <Nav />
-        <Routes>
-          <Route path='/' element={<ConceitosPage />} />
-          <Route path='/primos' element={<PrimeHunt />} />
-          <Route path='/fatoracao' element={<FatoracaoPage />} />
-          <Route path='/divisao' element={<DivisaoPage />} />
-          <Route path='/exercicios' element={<ExerciciosPage />} />
-          <Route path='/progresso' element={<ProgressoPage />} />
-        </Routes>
-        <footer className='mx-auto max-w-6xl px-3 py-8 text-xs text-slate-500'>
-          Feito para ensino rápido e intuitivo: divisibilidade, primos,
-          fatoração, potenciação e divisão com resto.
-        </footer>
-      </div>
-    </HashRouter>
+    <ProfilesProvider>
+      <ActiveProfileStats>
+        <HashRouter>
+          <div className='min-h-screen bg-gradient-to-b from-slate-50 to-white text-slate-800'>
+            <Nav />
+            <AchievementToasts />
+            <Routes>
+              <Route path='/' element={<ConceitosPage />} />
+              <Route path='/primos' element={<PrimeHunt />} />
+              <Route path='/fatoracao' element={<FatoracaoPage />} />
+              <Route path='/divisao' element={<DivisaoPage />} />
+              <Route path='/mdc-mmc' element={<MdcMmcPage />} />
+              <Route path='/exercicios' element={<JogoPage />} />
+              <Route path='/revisao' element={<RevisaoPage />} />
+              <Route path='/progresso' element={<ProgressoPage />} />
+              <Route path='/turma' element={<TurmaPage />} />
+            </Routes>
+            <footer className='mx-auto max-w-6xl px-3 py-8 text-xs text-slate-500'>
+              Feito para ensino rápido e intuitivo: divisibilidade, primos,
+              fatoração, potenciação e divisão com resto.
+            </footer>
+          </div>
+        </HashRouter>
+      </ActiveProfileStats>
+    </ProfilesProvider>
   );
 }
@@ -0,0 +1,122 @@
+import { describe, expect, it } from "vitest";
+import {
+  ACHIEVEMENTS,
+  achievementById,
+  isUnlocked,
+  longestCorrectStreak,
+  medalTitle,
+  newlyUnlocked,
+} from "./achievements";
+import { createDefaultStats, type AnswerEvent, type Stats } from "./stats";
+
+const statsWith = (overrides: Partial<Stats>): Stats => ({
+  ...createDefaultStats(),
+  ...overrides,
+});
+
+const answer = (correct: boolean): AnswerEvent => ({
+  at: "2025-09-20T12:00:00.000Z",
+  exercise: {
+    type: "primos",
+    n: 7,
+    prompt: "7 é primo? (S/N)",
+    explain: "7 é primo.",
+  },
+  answer: correct ? "s" : "n",
+  correct,
+  ms: null,
+});
+
+const ids = (stats: Stats) => newlyUnlocked(stats).map((a) => a.id);
+
+describe("catálogo", () => {
+  it("não repete ids", () => {
+    const all = ACHIEVEMENTS.map((a) => a.id);
+    expect(new Set(all).size).toBe(all.length);
+  });
+
+  it("mantém os ids das medalhas antigas", () => {
+    for (const id of [
+      "medal_perfeicao_5_de_5",
+      "medal_quase_lagrimas",
+      "medal_caca_primos_0_100",
+    ]) {
+      expect(achievementById(id)).toBeDefined();
+    }
+  });
+
+  it("medalTitle cai para o id quando a medalha não está no catálogo", () => {
+    expect(medalTitle("medal_quase_lagrimas")).toBe("Por um triz");
+    expect(medalTitle("outra")).toBe("outra");
+  });
+});
+
+describe("longestCorrectStreak", () => {
+  it("conta a maior sequência de acertos", () => {
+    const history = [true, true, false, true, true, true, false].map(answer);
+    expect(longestCorrectStreak(history)).toBe(3);
+  });
+});
+
+describe("newlyUnlocked", () => {
+  it("nada para um perfil novo", () => {
+    expect(ids(createDefaultStats())).toEqual([]);
+  });
+
+  it("série 5/5 desbloqueia Perfeição e Por um triz", () => {
+    expect(ids(statsWith({ bestFiveScore: 5 }))).toEqual([
+      "medal_perfeicao_5_de_5",
+      "medal_quase_lagrimas",
+    ]);
+  });
+
+  it("não repete medalhas já ganhas", () => {
+    const stats = statsWith({
+      bestFiveScore: 5,
+      medals: ["medal_perfeicao_5_de_5"],
+    });
+    expect(ids(stats)).toEqual(["medal_quase_lagrimas"]);
+  });
+
+  it("sequência de acertos no histórico", () => {
+    const history = Array.from({ length: 5 }, () => answer(true));
+    expect(ids(statsWith({ history }))).toContain("sequencia_5");
+    expect(ids(statsWith({ history }))).not.toContain("sequencia_10");
+  });
+
+  it("domínio exige quantidade e taxa de acerto", () => {
+    const topic = (correct: number, wrong: number) =>
+      statsWith({
+        perTopic: {
+          ...createDefaultStats().perTopic,
+          resto: { correct, wrong },
+        },
+      });
+    expect(ids(topic(10, 2))).toContain("mestre_resto");
+    expect(ids(topic(10, 5))).not.toContain("mestre_resto");
+    expect(ids(topic(9, 0))).not.toContain("mestre_resto");
+  });
+
+  it("número de sessões", () => {
+    expect(ids(statsWith({ sessions: 10 }))).toEqual([
+      "sessoes_1",
+      "sessoes_10",
+    ]);
+  });
+});
+
+describe("isUnlocked", () => {
+  it("usa o progresso quando não há regra própria", () => {
+    const hunter = achievementById("medal_caca_primos_0_100")!;
+    expect(isUnlocked(hunter, createDefaultStats())).toBe(false);
+    expect(isUnlocked(hunter, statsWith({ primeHuntCompleted: true }))).toBe(
+      true
+    );
+  });
+
+  it("faixas maiores do Jogo dos Primos têm medalha própria", () => {
+    const big = achievementById("medal_caca_primos_ampliada")!;
+    expect(isUnlocked(big, statsWith({ primeHuntLimit: 100 }))).toBe(false);
+    expect(isUnlocked(big, statsWith({ primeHuntLimit: 500 }))).toBe(true);
+  });
+});
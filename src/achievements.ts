@@ -0,0 +1,167 @@
+import { TYPES, type ExerciseType } from "./exercise";
+import type { AnswerEvent, Stats } from "./stats";
+
+// ----------------------------------------------
+// Catálogo de conquistas (regras avaliadas sobre Stats)
+// ----------------------------------------------
+export interface AchievementProgress {
+  current: number;
+  target: number;
+}
+
+export interface Achievement {
+  id: string; // gravado em Stats.medals; não renomear
+  title: string;
+  description: string;
+  icon: string; // emoji
+  progress: (stats: Stats) => AchievementProgress;
+  // Padrão: current >= target
+  unlocked?: (stats: Stats) => boolean;
+}
+
+// Maior sequência de acertos seguidos no histórico guardado
+export const longestCorrectStreak = (history: AnswerEvent[]) => {
+  let best = 0;
+  let run = 0;
+  for (const e of history) {
+    run = e.correct ? run + 1 : 0;
+    best = Math.max(best, run);
+  }
+  return best;
+};
+
+const MASTERY_CORRECT = 10;
+const MASTERY_ACCURACY = 0.8;
+
+const TOPIC_NAMES: Record<ExerciseType, string> = {
+  divisibilidade: "da divisibilidade",
+  primos: "dos primos",
+  fatoracao: "da fatoração",
+  potenciacao: "da potenciação",
+  resto: "do resto",
+  mdc_mmc: "do MDC e MMC",
+  divisao: "da divisão",
+};
+
+const TOPIC_ICONS: Record<ExerciseType, string> = {
+  divisibilidade: "➗",
+  primos: "🔢",
+  fatoracao: "🌳",
+  potenciacao: "🚀",
+  resto: "🧮",
+  mdc_mmc: "🔗",
+  divisao: "🍕",
+};
+
+const masteryOf = (topic: ExerciseType): Achievement => ({
+  id: `mestre_${topic}`,
+  title: `Mestre ${TOPIC_NAMES[topic]}`,
+  description: `Acerte ${MASTERY_CORRECT} questões ${
+    TOPIC_NAMES[topic]
+  } com pelo menos ${MASTERY_ACCURACY * 100}% de acerto.`,
+  icon: TOPIC_ICONS[topic],
+  progress: (s) => ({
+    current: s.perTopic[topic]?.correct ?? 0,
+    target: MASTERY_CORRECT,
+  }),
+  unlocked: (s) => {
+    const t = s.perTopic[topic];
+    if (!t || t.correct < MASTERY_CORRECT) return false;
+    return t.correct / (t.correct + t.wrong) >= MASTERY_ACCURACY;
+  },
+});
+
+const sessionsGoal = (
+  id: string,
+  title: string,
+  icon: string,
+  target: number
+): Achievement => ({
+  id,
+  title,
+  description:
+    target === 1
+      ? "Comece sua primeira série do Jogo 5/5."
+      : `Comece ${target} séries do Jogo 5/5.`,
+  icon,
+  progress: (s) => ({ current: s.sessions, target }),
+});
+
+const streakGoal = (
+  id: string,
+  title: string,
+  icon: string,
+  target: number
+): Achievement => ({
+  id,
+  title,
+  description: `Acerte ${target} questões seguidas (Jogo 5/5 ou Revisão).`,
+  icon,
+  progress: (s) => ({ current: longestCorrectStreak(s.history), target }),
+});
+
+export const ACHIEVEMENTS: Achievement[] = [
+  {
+    id: "medal_perfeicao_5_de_5",
+    title: "Perfeição",
+    description: "Acerte as 5 questões de uma série do Jogo 5/5.",
+    icon: "🏆",
+    progress: (s) => ({ current: s.bestFiveScore, target: 5 }),
+  },
+  {
+    id: "medal_quase_lagrimas",
+    title: "Por um triz",
+    description: "Acerte pelo menos 4 de 5 numa série do Jogo 5/5.",
+    icon: "🥈",
+    progress: (s) => ({ current: s.bestFiveScore, target: 4 }),
+  },
+  {
+    id: "medal_caca_primos_0_100",
+    title: "Caçador de primos",
+    description: "Encontre todos os primos de 0 a 100 no Jogo dos Primos.",
+    icon: "🔎",
+    progress: (s) => ({ current: s.primeHuntCompleted ? 1 : 0, target: 1 }),
+  },
+  {
+    id: "medal_caca_primos_ampliada",
+    title: "Grande caçador de primos",
+    description:
+      "Encontre todos os primos numa faixa maior (0–200 ou 0–500) no Jogo dos Primos.",
+    icon: "🔭",
+    progress: (s) => ({ current: s.primeHuntLimit, target: 200 }),
+  },
+  {
+    id: "primeira_fatoracao",
+    title: "Primeira fatoração perfeita",
+    description: "Acerte uma questão de fatoração em primos.",
+    icon: "🌱",
+    progress: (s) => ({
+      current: s.perTopic.fatoracao?.correct ?? 0,
+      target: 1,
+    }),
+  },
+  streakGoal("sequencia_5", "Embalado", "🔥", 5),
+  streakGoal("sequencia_10", "Imparável", "⚡", 10),
+  sessionsGoal("sessoes_1", "Primeiros passos", "👣", 1),
+  sessionsGoal("sessoes_10", "Frequentador", "📅", 10),
+  sessionsGoal("sessoes_50", "Dedicação total", "🏅", 50),
+  ...TYPES.map(masteryOf),
+];
+
+export const achievementById = (id: string) =>
+  ACHIEVEMENTS.find((a) => a.id === id);
+
+// Medalhas fora do catálogo (ex.: de uma versão mais nova) mostram o id
+export const medalTitle = (id: string) => achievementById(id)?.title ?? id;
+
+export const isUnlocked = (achievement: Achievement, stats: Stats) => {
+  if (achievement.unlocked) return achievement.unlocked(stats);
+  const { current, target } = achievement.progress(stats);
+  return current >= target;
+};
+
+// Regras cumpridas que ainda não viraram medalha
+export const newlyUnlocked = (stats: Stats) =>
+  ACHIEVEMENTS.filter(
+    (a) => !stats.medals.includes(a.id) && isUnlocked(a, stats)
+  );
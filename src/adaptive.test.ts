@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import { pickWeighted, rampDifficulty, recommendTopics } from "./adaptive";
+import { TYPES } from "./exercise";
+import { exerciseFor } from "./generator";
+import { createRng } from "./random";
+import { DAY_MS, createDefaultStats } from "./stats";
+
+const NOW = Date.parse("2025-03-10T12:00:00Z");
+const daysAgo = (days: number) => new Date(NOW - days * DAY_MS).toISOString();
+
+const practicedStats = () => {
+  const stats = createDefaultStats();
+  for (const t of TYPES) {
+    stats.perTopic[t] = { correct: 9, wrong: 1, lastSeen: daysAgo(0) };
+  }
+  return stats;
+};
+
+describe("recommendTopics", () => {
+  it("as chances somam 1 e vêm em ordem de peso", () => {
+    const recs = recommendTopics(createDefaultStats(), NOW);
+    expect(recs).toHaveLength(TYPES.length);
+    expect(recs.reduce((acc, r) => acc + r.share, 0)).toBeCloseTo(1);
+    for (let i = 1; i < recs.length; i++) {
+      expect(recs[i - 1].weight).toBeGreaterThanOrEqual(recs[i].weight);
+    }
+  });
+
+  it("o tópico com mais erros vai para o topo", () => {
+    const stats = practicedStats();
+    stats.perTopic.fatoracao = { correct: 2, wrong: 8, lastSeen: daysAgo(0) };
+    const [top] = recommendTopics(stats, NOW);
+    expect(top.topic).toBe("fatoracao");
+    expect(top.reasons[0]).toContain("80%");
+  });
+
+  it("tópico esquecido há dias ganha peso", () => {
+    const stats = practicedStats();
+    stats.perTopic.primos = { correct: 9, wrong: 1, lastSeen: daysAgo(5) };
+    const [top] = recommendTopics(stats, NOW);
+    expect(top.topic).toBe("primos");
+    expect(top.reasons).toContain("sem praticar há 5 dias");
+  });
+});
+
+describe("pickWeighted", () => {
+  it("é reprodutível com a mesma semente", () => {
+    const recs = recommendTopics(createDefaultStats(), NOW);
+    const draw = () => {
+      const rng = createRng("pesos");
+      return Array.from({ length: 20 }, () => pickWeighted(rng, recs));
+    };
+    expect(draw()).toEqual(draw());
+  });
+
+  it("peso zero nunca sai", () => {
+    const recs = recommendTopics(createDefaultStats(), NOW).map((r) =>
+      r.topic === "primos" ? { ...r, weight: 0 } : r
+    );
+    const rng = createRng("zero");
+    for (let i = 0; i < 200; i++) {
+      expect(pickWeighted(rng, recs)).not.toBe("primos");
+    }
+  });
+});
+
+describe("rampDifficulty", () => {
+  it("sobe com acertos seguidos e desce com erros", () => {
+    expect(rampDifficulty("iniciante", 0)).toBe("iniciante");
+    expect(rampDifficulty("iniciante", 3)).toBe("intermediario");
+    expect(rampDifficulty("iniciante", 6)).toBe("avancado");
+    expect(rampDifficulty("intermediario", -2)).toBe("iniciante");
+  });
+
+  it("não passa dos extremos", () => {
+    expect(rampDifficulty("avancado", 10)).toBe("avancado");
+    expect(rampDifficulty("iniciante", -5)).toBe("iniciante");
+  });
+});
+
+describe("exerciseFor", () => {
+  it("(semente, rodada, nível) sempre dá o mesmo exercício", () => {
+    for (let round = 0; round < 10; round++) {
+      expect(exerciseFor("abc", round, "intermediario")).toEqual(
+        exerciseFor("abc", round, "intermediario")
+      );
+    }
+  });
+});
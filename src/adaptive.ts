@@ -0,0 +1,75 @@
+import { TYPES, type ExerciseType } from "./exercise";
+import { DIFFICULTIES, type Difficulty } from "./generator";
+import type { Rng } from "./random";
+import { DAY_MS, type Stats } from "./stats";
+
+// ----------------------------------------------
+// Seleção adaptativa (pesos por tópico a partir do histórico)
+// ----------------------------------------------
+export interface TopicRecommendation {
+  topic: ExerciseType;
+  weight: number;
+  share: number; // chance de ser sorteado (0–1)
+  reasons: string[];
+}
+
+export const recommendTopics = (
+  stats: Stats,
+  now = Date.now()
+): TopicRecommendation[] => {
+  const recs = TYPES.map((topic) => {
+    const { correct = 0, wrong = 0, lastSeen } = stats.perTopic[topic] ?? {};
+    const total = correct + wrong;
+    const reasons: string[] = [];
+
+    // Taxa de erro suavizada: sem histórico conta como 50%
+    const errorRate = (wrong + 1) / (total + 2);
+    let weight = 0.5 + 2 * errorRate;
+    if (total === 0) {
+      reasons.push("ainda não praticado");
+    } else if (wrong / total >= 0.4) {
+      reasons.push(
+        `taxa de erro de ${Math.round(
+          (wrong / total) * 100
+        )}% (${wrong} de ${total})`
+      );
+    } else {
+      reasons.push(
+        `bom desempenho (${correct} de ${total} acertos), revisão ocasional`
+      );
+    }
+
+    const days = lastSeen ? (now - Date.parse(lastSeen)) / DAY_MS : null;
+    if (days === null) {
+      weight += 0.75;
+    } else {
+      weight += (Math.min(days, 7) / 7) * 0.75;
+      if (days >= 3) reasons.push(`sem praticar há ${Math.floor(days)} dias`);
+    }
+    return { topic, weight, share: 0, reasons };
+  });
+  const sum = recs.reduce((acc, r) => acc + r.weight, 0);
+  return recs
+    .map((r) => ({ ...r, share: r.weight / sum }))
+    .sort((a, b) => b.weight - a.weight);
+};
+
+export const pickWeighted = (rng: Rng, recs: TopicRecommendation[]) => {
+  let x = rng() * recs.reduce((acc, r) => acc + r.weight, 0);
+  for (const r of recs) {
+    x -= r.weight;
+    if (x < 0) return r.topic;
+  }
+  return recs[recs.length - 1].topic;
+};
+
+// Sequências de acertos sobem o nível; erros seguidos descem
+export const rampDifficulty = (
+  base: Difficulty,
+  streak: number
+): Difficulty => {
+  const shift =
+    (streak >= 3 ? 1 : 0) + (streak >= 6 ? 1 : 0) - (streak <= -2 ? 1 : 0);
+  const i = DIFFICULTIES.indexOf(base) + shift;
+  return DIFFICULTIES[Math.max(0, Math.min(DIFFICULTIES.length - 1, i))];
+};
@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import {
+  CHALLENGE_POINTS,
+  LEADERBOARD_SIZE,
+  answerPoints,
+  challengeKey,
+  rankRuns,
+  type ChallengeRun,
+} from "./challenge";
+
+describe("answerPoints", () => {
+  it("erro não pontua", () => {
+    expect(answerPoints(false, 500, 0).total).toBe(0);
+  });
+
+  it("resposta instantânea ganha o bônus máximo de rapidez", () => {
+    expect(answerPoints(true, 0, 1)).toEqual({
+      base: CHALLENGE_POINTS.correct,
+      speed: CHALLENGE_POINTS.speedMax,
+      streak: 0,
+      total: CHALLENGE_POINTS.correct + CHALLENGE_POINTS.speedMax,
+    });
+  });
+
+  it("resposta lenta fica só com a base", () => {
+    const slow = answerPoints(true, CHALLENGE_POINTS.speedWindowMs * 2, 1);
+    expect(slow.total).toBe(CHALLENGE_POINTS.correct);
+  });
+
+  it("sequência soma bônus até o limite", () => {
+    const slow = CHALLENGE_POINTS.speedWindowMs;
+    expect(answerPoints(true, slow, 3).streak).toBe(
+      2 * CHALLENGE_POINTS.streakStep
+    );
+    expect(answerPoints(true, slow, 100).streak).toBe(
+      CHALLENGE_POINTS.streakMax
+    );
+  });
+});
+
+describe("rankRuns", () => {
+  const run = (score: number, day: number): ChallengeRun => ({
+    score,
+    correct: 0,
+    answered: 0,
+    bestStreak: 0,
+    at: `2025-09-${String(day).padStart(2, "0")}T12:00:00.000Z`,
+  });
+
+  it("ordena por pontos e, no empate, pela partida mais antiga", () => {
+    const ranked = rankRuns([run(10, 3), run(30, 2), run(10, 1)]);
+    expect(ranked.map((r) => [r.score, r.at.slice(8, 10)])).toEqual([
+      [30, "02"],
+      [10, "01"],
+      [10, "03"],
+    ]);
+  });
+
+  it("guarda só as melhores partidas", () => {
+    const runs = Array.from({ length: 8 }, (_, i) => run(i, i + 1));
+    const ranked = rankRuns(runs);
+    expect(ranked).toHaveLength(LEADERBOARD_SIZE);
+    expect(ranked[0].score).toBe(7);
+  });
+});
+
+describe("challengeKey", () => {
+  it("separa o placar por duração e nível", () => {
+    expect(challengeKey(60, "iniciante")).not.toBe(
+      challengeKey(120, "iniciante")
+    );
+  });
+});
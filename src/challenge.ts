@@ -0,0 +1,65 @@
+// ----------------------------------------------
+// Desafio cronometrado: pontuação e recordes pessoais
+// ----------------------------------------------
+export const CHALLENGE_DURATIONS = [60, 120] as const; // segundos
+export type ChallengeDuration = (typeof CHALLENGE_DURATIONS)[number];
+
+export const CHALLENGE_POINTS = {
+  correct: 10, // cada acerto
+  speedMax: 5, // bônus de rapidez (resposta instantânea)
+  speedWindowMs: 10_000, // depois disso, sem bônus de rapidez
+  streakStep: 2, // por acerto seguido além do primeiro
+  streakMax: 10,
+} as const;
+
+export interface AnswerPoints {
+  base: number;
+  speed: number;
+  streak: number;
+  total: number;
+}
+
+// streak: acertos seguidos contando esta resposta
+export const answerPoints = (
+  correct: boolean,
+  ms: number,
+  streak: number
+): AnswerPoints => {
+  if (!correct) return { base: 0, speed: 0, streak: 0, total: 0 };
+  const p = CHALLENGE_POINTS;
+  const base = p.correct;
+  const speed = Math.round(
+    p.speedMax * Math.max(0, 1 - Math.max(0, ms) / p.speedWindowMs)
+  );
+  const streakBonus = Math.min(
+    p.streakMax,
+    p.streakStep * Math.max(0, streak - 1)
+  );
+  return {
+    base,
+    speed,
+    streak: streakBonus,
+    total: base + speed + streakBonus,
+  };
+};
+
+export interface ChallengeRun {
+  score: number;
+  correct: number;
+  answered: number;
+  bestStreak: number;
+  at: string; // ISO do fim da partida
+}
+
+// Um placar por duração e nível: "60|iniciante"
+export const challengeKey = (duration: number, difficulty: string) =>
+  `${duration}|${difficulty}`;
+
+export const LEADERBOARD_SIZE = 5;
+
+// Maior pontuação primeiro; empate fica com quem fez antes
+const byRank = (a: ChallengeRun, b: ChallengeRun) =>
+  b.score - a.score || Date.parse(a.at) - Date.parse(b.at);
+
+export const rankRuns = (runs: ChallengeRun[]) =>
+  [...runs].sort(byRank).slice(0, LEADERBOARD_SIZE);
@@ -0,0 +1,142 @@
+import { describe, expect, it } from "vitest";
+import {
+  checkAnswer,
+  evaluateExpression,
+  expectedAnswer,
+  factorsChecker,
+  integerChecker,
+  yesNoChecker,
+} from "./checkers";
+import type { Exercise, ExerciseOf } from "./exercise";
+
+const fatoracao: ExerciseOf<"fatoracao"> = {
+  type: "fatoracao",
+  value: 12,
+  expected: [2, 2, 3],
+  prompt: "Fatore 12 em primos.",
+  explain: "Fatoração: 2² × 3.",
+};
+
+describe("yesNoChecker", () => {
+  it("aceita maiúsculas, espaços e acentos", () => {
+    for (const text of ["S", " sim ", "Yes"]) {
+      expect(yesNoChecker.parse(text)).toEqual({ ok: true, value: true });
+    }
+    for (const text of ["n", "NÃO", "nao", " no"]) {
+      expect(yesNoChecker.parse(text)).toEqual({ ok: true, value: false });
+    }
+  });
+
+  it("recusa o que não é sim nem não", () => {
+    expect(yesNoChecker.parse("talvez").ok).toBe(false);
+    expect(yesNoChecker.parse("").ok).toBe(false);
+  });
+});
+
+describe("integerChecker", () => {
+  it("aceita espaços de milhar, sinal e zeros à esquerda", () => {
+    expect(integerChecker.parse("1 024")).toEqual({ ok: true, value: 1024 });
+    expect(integerChecker.parse(" -7 ")).toEqual({ ok: true, value: -7 });
+    expect(integerChecker.parse("007")).toEqual({ ok: true, value: 7 });
+  });
+
+  it("recusa decimais e textos", () => {
+    expect(integerChecker.parse("2.5").ok).toBe(false);
+    expect(integerChecker.parse("três").ok).toBe(false);
+  });
+});
+
+describe("evaluateExpression", () => {
+  it("entende ×, x, *, ÷ e parênteses com precedência", () => {
+    expect(evaluateExpression("2×2×2")).toBe(8);
+    expect(evaluateExpression("2 x 3 * 4")).toBe(24);
+    expect(evaluateExpression("2 + 3 × 4")).toBe(14);
+    expect(evaluateExpression("(2 + 3) × 4")).toBe(20);
+    expect(evaluateExpression("12 ÷ 4 − 1")).toBe(2);
+    expect(evaluateExpression("1,5 * 2")).toBe(3);
+  });
+
+  it("recusa expressões incompletas e divisão por zero", () => {
+    expect(evaluateExpression("2 +")).toBeNull();
+    expect(evaluateExpression("(2 + 3")).toBeNull();
+    expect(evaluateExpression("1/0")).toBeNull();
+    expect(evaluateExpression("2^3")).toBeNull();
+  });
+});
+
+describe("factorsChecker", () => {
+  it("aceita os formatos com e sem expoente", () => {
+    for (const text of ["2x2x3", "2 2 3", "2×2×3", "2*2*3", "2^2*3", "2²·3"]) {
+      expect(factorsChecker.parse(text)).toEqual({
+        ok: true,
+        value: [2, 2, 3],
+      });
+    }
+  });
+
+  it("explica formatos inválidos", () => {
+    expect(factorsChecker.parse("   ").ok).toBe(false);
+    expect(factorsChecker.parse("1x12").ok).toBe(false);
+    expect(factorsChecker.parse("2 a 3").ok).toBe(false);
+  });
+});
+
+describe("checkAnswer", () => {
+  it("fatores em qualquer ordem estão certos", () => {
+    expect(checkAnswer(fatoracao, "3 x 2 x 2").correct).toBe(true);
+    expect(checkAnswer(fatoracao, "3·2²").correct).toBe(true);
+  });
+
+  it("aponta fator composto e produto errado", () => {
+    expect(checkAnswer(fatoracao, "4x3").explain).toContain("primos (4)");
+    expect(checkAnswer(fatoracao, "2x3").explain).toContain("produto");
+  });
+
+  it("potência aceita o valor ou a conta", () => {
+    const ex: Exercise = {
+      type: "potenciacao",
+      base: 2,
+      exp: 3,
+      prompt: "Calcule 2^3.",
+      explain: "",
+    };
+    expect(checkAnswer(ex, "8").correct).toBe(true);
+    expect(checkAnswer(ex, "2 × 2 × 2").correct).toBe(true);
+    expect(checkAnswer(ex, "6").correct).toBe(false);
+  });
+
+  it("divisão usa o diagnóstico de erros clássicos", () => {
+    const ex: Exercise = {
+      type: "divisao",
+      a: 17,
+      b: 5,
+      prompt: "",
+      explain: "17 = 5 × 3 + 2",
+    };
+    expect(checkAnswer(ex, "q = 3, r = 2").correct).toBe(true);
+    expect(checkAnswer(ex, "2 3").explain).toContain("trocou");
+    expect(expectedAnswer(ex)).toBe("q = 3, r = 2");
+  });
+
+  it("resposta ilegível é marcada como inválida, não como erro", () => {
+    const ex: Exercise = {
+      type: "divisibilidade",
+      n: 12,
+      by: 4,
+      prompt: "",
+      explain: "",
+    };
+    expect(checkAnswer(ex, "?")).toMatchObject({
+      correct: false,
+      expected: "Sim",
+      invalid: true,
+    });
+    expect(checkAnswer(ex, "").invalid).toBe(true);
+    expect(checkAnswer(fatoracao, "abc").invalid).toBe(true);
+  });
+
+  it("resposta legível, certa ou errada, não é inválida", () => {
+    expect(checkAnswer(fatoracao, "2x2x3").invalid).toBeUndefined();
+    expect(checkAnswer(fatoracao, "4x3").invalid).toBeUndefined();
+  });
+});
@@ -0,0 +1,256 @@
+import {
+  divisionMistake,
+  euclideanDivision,
+  parseQuotientRemainder,
+  type QuotientRemainder,
+} from "./division";
+import type { Exercise, ExerciseOf, ExerciseType } from "./exercise";
+import {
+  formatFactorization,
+  gcd,
+  isPrime,
+  lcm,
+  multisetEqual,
+  normalizeFactorsInput,
+  productOf,
+} from "./math";
+
+// ----------------------------------------------
+// Correção de respostas (um corretor por formato de resposta)
+// ----------------------------------------------
+export type Parsed<T> = { ok: true; value: T } | { ok: false; explain: string };
+
+export interface AnswerChecker<T> {
+  parse: (input: string) => Parsed<T>;
+  equals: (given: T, expected: T) => boolean;
+  format: (value: T) => string;
+}
+
+const stripAccents = (text: string) =>
+  text.normalize("NFD").replace(/[\u0300-\u036f]/g, "");
+
+const YES_WORDS = ["s", "sim", "y", "yes"];
+const NO_WORDS = ["n", "nao", "no"];
+
+export const yesNoChecker: AnswerChecker<boolean> = {
+  parse: (input) => {
+    const word = stripAccents(input.trim().toLowerCase());
+    if (YES_WORDS.includes(word)) return { ok: true, value: true };
+    if (NO_WORDS.includes(word)) return { ok: true, value: false };
+    return { ok: false, explain: "Responda com S (sim) ou N (não)." };
+  },
+  equals: (given, expected) => given === expected,
+  format: (value) => (value ? "Sim" : "Não"),
+};
+
+// Aceita espaços ("1 024") e zeros à esquerda ("007")
+export const integerChecker: AnswerChecker<number> = {
+  parse: (input) => {
+    const compact = input.replace(/\s+/g, "");
+    if (!/^[+-]?\d+$/.test(compact)) {
+      return { ok: false, explain: "Digite um número inteiro (ex.: 3)." };
+    }
+    return { ok: true, value: Number(compact) };
+  },
+  equals: (given, expected) => given === expected,
+  format: (value) => String(value),
+};
+
+export const quotientRemainderChecker: AnswerChecker<QuotientRemainder> = {
+  parse: (input) => {
+    const value = parseQuotientRemainder(input);
+    return value
+      ? { ok: true, value }
+      : {
+          ok: false,
+          explain: "Digite o quociente e o resto (ex.: 12 3 ou q = 12, r = 3).",
+        };
+  },
+  equals: (given, expected) => given.q === expected.q && given.r === expected.r,
+  format: ({ q, r }) => `q = ${q}, r = ${r}`,
+};
+
+// Avalia expressões com + − × ÷ e parênteses (sem eval)
+export const evaluateExpression = (text: string): number | null => {
+  const tokens = text
+    .replace(/[×xX*·]/g, "*")
+    .replace(/[÷:]/g, "/")
+    .replace(/−/g, "-")
+    .match(/\d+(?:[.,]\d+)?|[-+*/()]|\S/g);
+  if (!tokens) return null;
+  let pos = 0;
+
+  const parsePrimary = (): number | null => {
+    const t = tokens[pos++];
+    if (t === "(") {
+      const v = parseSum();
+      return tokens[pos++] === ")" ? v : null;
+    }
+    if (t === "-" || t === "+") {
+      const v = parsePrimary();
+      return v === null ? null : t === "-" ? -v : v;
+    }
+    if (t !== undefined && /^\d/.test(t)) return Number(t.replace(",", "."));
+    return null;
+  };
+  const parseProduct = (): number | null => {
+    let acc = parsePrimary();
+    while (acc !== null && (tokens[pos] === "*" || tokens[pos] === "/")) {
+      const op = tokens[pos++];
+      const rhs = parsePrimary();
+      if (rhs === null) return null;
+      acc = op === "*" ? acc * rhs : acc / rhs;
+    }
+    return acc;
+  };
+  const parseSum = (): number | null => {
+    let acc = parseProduct();
+    while (acc !== null && (tokens[pos] === "+" || tokens[pos] === "-")) {
+      const op = tokens[pos++];
+      const rhs = parseProduct();
+      if (rhs === null) return null;
+      acc = op === "+" ? acc + rhs : acc - rhs;
+    }
+    return acc;
+  };
+
+  const result = parseSum();
+  return result !== null && pos === tokens.length && Number.isFinite(result)
+    ? result
+    : null;
+};
+
+export const expressionChecker: AnswerChecker<number> = {
+  parse: (input) => {
+    const value = evaluateExpression(input);
+    return value === null
+      ? { ok: false, explain: "Digite um número ou uma conta (ex.: 2×2×2)." }
+      : { ok: true, value };
+  },
+  equals: (given, expected) => Math.abs(given - expected) < 1e-9,
+  format: (value) => String(value),
+};
+
+export const factorsChecker: AnswerChecker<number[]> = {
+  parse: (input) => {
+    const factors = normalizeFactorsInput(input);
+    if (factors.length === 0) {
+      return {
+        ok: false,
+        explain: "Formato aceito: 2x2x3, 2 2 3, 2×2×3, 2^2*3 ou 2²·3.",
+      };
+    }
+    if (!factors.every((k) => Number.isInteger(k) && k >= 2)) {
+      return {
+        ok: false,
+        explain: "Use apenas inteiros ≥ 2, com expoente opcional (2^3 ou 2³).",
+      };
+    }
+    return { ok: true, value: factors };
+  },
+  equals: multisetEqual,
+  format: formatFactorization,
+};
+
+export interface CheckResult {
+  correct: boolean;
+  expected: string;
+  explain: string;
+  invalid?: boolean; // não deu para ler a resposta: explain traz o formato
+}
+
+export interface ExerciseGrader<E extends Exercise, T> {
+  checker: AnswerChecker<T>;
+  expected: (ex: E) => T;
+  // Diagnóstico específico antes da comparação (ex.: fator composto)
+  validate?: (ex: E, given: T) => string | null;
+  feedback?: (ex: E, correct: boolean) => string;
+}
+
+export interface ExerciseKind<E extends Exercise> {
+  check: (ex: E, input: string) => CheckResult;
+  expectedText: (ex: E) => string;
+}
+
+export const defineKind = <E extends Exercise, T>(
+  grader: ExerciseGrader<E, T>
+): ExerciseKind<E> => ({
+  expectedText: (ex) => grader.checker.format(grader.expected(ex)),
+  check: (ex, input) => {
+    const expected = grader.checker.format(grader.expected(ex));
+    const parsed = grader.checker.parse(input);
+    if (parsed.ok === false) {
+      return {
+        correct: false,
+        expected,
+        explain: parsed.explain,
+        invalid: true,
+      };
+    }
+    const problem = grader.validate?.(ex, parsed.value);
+    if (problem) return { correct: false, expected, explain: problem };
+    const correct = grader.checker.equals(parsed.value, grader.expected(ex));
+    const explain = grader.feedback ? grader.feedback(ex, correct) : ex.explain;
+    return { correct, expected, explain };
+  },
+});
+
+export const EXERCISE_KINDS: {
+  [K in ExerciseType]: ExerciseKind<ExerciseOf<K>>;
+} = {
+  divisibilidade: defineKind({
+    checker: yesNoChecker,
+    expected: (ex) => ex.n % ex.by === 0,
+  }),
+  primos: defineKind({
+    checker: yesNoChecker,
+    expected: (ex) => isPrime(ex.n),
+  }),
+  fatoracao: defineKind({
+    checker: factorsChecker,
+    expected: (ex) => ex.expected,
+    validate: (ex, factors) => {
+      const nonPrimes = factors.filter((k) => !isPrime(k));
+      if (nonPrimes.length > 0) {
+        return `Nem todos os fatores são primos (${nonPrimes.join(
+          ", "
+        )}). Dica: fatorar compostos (ex.: 6 = 2x3).`;
+      }
+      const prod = productOf(factors);
+      if (prod !== ex.value) {
+        return `O produto dos fatores digitados é ${prod}, mas deve ser ${ex.value}.`;
+      }
+      return null;
+    },
+    feedback: (ex, correct) =>
+      correct
+        ? `Perfeito! ${ex.value} = ${formatFactorization(ex.expected)}.`
+        : `Revise: ${ex.value} = ${formatFactorization(ex.expected)}.`,
+  }),
+  potenciacao: defineKind({
+    checker: expressionChecker,
+    expected: (ex) => Math.pow(ex.base, ex.exp),
+  }),
+  resto: defineKind({
+    checker: integerChecker,
+    expected: (ex) => ex.a % ex.b,
+  }),
+  mdc_mmc: defineKind({
+    checker: integerChecker,
+    expected: (ex) => (ex.ask === "mdc" ? gcd(ex.a, ex.b) : lcm(ex.a, ex.b)),
+  }),
+  divisao: defineKind({
+    checker: quotientRemainderChecker,
+    expected: (ex) => euclideanDivision(ex.a, ex.b),
+    validate: (ex, given) => divisionMistake(ex.a, ex.b, given),
+  }),
+};
+
+const kindOf = <E extends Exercise>(ex: E) =>
+  EXERCISE_KINDS[ex.type] as ExerciseKind<E>;
+
+export const checkAnswer = (ex: Exercise, input: string): CheckResult =>
+  kindOf(ex).check(ex, input);
+
+export const expectedAnswer = (ex: Exercise): string =>
+  kindOf(ex).expectedText(ex);
@@ -0,0 +1,87 @@
+import fc from "fast-check";
+import { describe, expect, it } from "vitest";
+import {
+  DIVISIBILITY_DIVISORS,
+  divisibilityExplain,
+  divisibilityRule,
+} from "./divisibility";
+
+describe("divisibilityRule", () => {
+  it("por 4 olha só os dois últimos algarismos", () => {
+    const { steps, divisible } = divisibilityRule(1236, 4);
+    expect(divisible).toBe(true);
+    expect(steps[0]).toEqual({
+      text: "Os dois últimos algarismos formam 36.",
+      digits: [2, 3],
+    });
+    expect(steps[1].text).toBe("36 = 4 × 9: 36 é múltiplo de 4.");
+  });
+
+  it("por 7 tira o dobro do último algarismo até ficar pequeno", () => {
+    expect(divisibilityRule(2023, 7).steps.map((s) => s.text)).toEqual([
+      "2023: separamos o 3 e fazemos 202 − 2 × 3 = 196.",
+      "196: separamos o 6 e fazemos 19 − 2 × 6 = 7.",
+      "7 já é pequeno: 7 = 7 × 1, é múltiplo de 7.",
+      "Então 2023 é divisível por 7.",
+    ]);
+  });
+
+  it("por 11 usa a soma alternada a partir da direita", () => {
+    const { steps } = divisibilityRule(918082, 11);
+    expect(steps[0].text).toBe(
+      "Da direita para a esquerda, alternando + e −: 2 − 8 + 0 − 8 + 1 − 9 = -22."
+    );
+    expect(steps[0].digits).toEqual([0, 1, 2, 3, 4, 5]);
+  });
+
+  it("por 9 soma de novo enquanto a soma tiver mais de um algarismo", () => {
+    expect(divisibilityRule(99999, 9).steps.map((s) => s.text)).toEqual([
+      "Somamos: 9 + 9 + 9 + 9 + 9 = 45.",
+      "Somamos de novo: 4 + 5 = 9.",
+      "9 é múltiplo de 9.",
+      "Então 99999 é divisível por 9.",
+    ]);
+  });
+
+  it("por 12 junta os critérios do 3 e do 4", () => {
+    const { steps } = divisibilityRule(1230, 12);
+    expect(steps[0].text).toBe(
+      "Por 3: somamos: 1 + 2 + 3 + 0 = 6. 6 é múltiplo de 3."
+    );
+    expect(steps[1].text).toContain("30 = 4 × 7 + 2");
+    expect(steps[2].text).toBe("Então 1230 não é divisível por 12.");
+  });
+
+  it("por 25 completa com zero à esquerda", () => {
+    expect(divisibilityExplain(5, 25)).toContain("05 não está");
+  });
+
+  it("o sinal não muda a conclusão", () => {
+    expect(divisibilityRule(-84, 7).steps[0].text).toBe(
+      "O sinal não importa: olhamos para 84."
+    );
+  });
+
+  it("a conclusão sempre concorda com %", () => {
+    const divisor = fc.constantFrom(...DIVISIBILITY_DIVISORS);
+    fc.assert(
+      fc.property(
+        fc.integer({ min: -(10 ** 12), max: 10 ** 12 }),
+        divisor,
+        (n, by) => {
+          const { steps, divisible } = divisibilityRule(n, by);
+          expect(divisible).toBe(n % by === 0);
+          expect(steps[steps.length - 1].text).toBe(
+            `Então ${n} ${divisible ? "é" : "não é"} divisível por ${by}.`
+          );
+          // O critério em si já chega na mesma resposta
+          if (divisible) {
+            expect(steps[steps.length - 2].text).not.toMatch(
+              /não é múltiplo|não está|precisaria|é ímpar/
+            );
+          }
+        }
+      )
+    );
+  });
+});
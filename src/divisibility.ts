@@ -0,0 +1,244 @@
+import { alternatingDigitSum, digitSum } from "./math";
+
+// ----------------------------------------------
+// Critérios de divisibilidade, passo a passo
+// ----------------------------------------------
+export const DIVISIBILITY_DIVISORS = [
+  2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 25,
+] as const;
+
+export type Divisor = (typeof DIVISIBILITY_DIVISORS)[number];
+
+export interface RuleStep {
+  text: string;
+  digits: number[]; // posições dos algarismos de |n| usados neste passo
+}
+
+export interface DivisibilityRule {
+  rule: string; // a regra numa frase
+  steps: RuleStep[];
+  divisible: boolean;
+}
+
+const RULES: Record<Divisor, string> = {
+  2: "Termina em algarismo par (0, 2, 4, 6 ou 8).",
+  3: "A soma dos algarismos é múltiplo de 3.",
+  4: "Os dois últimos algarismos formam um múltiplo de 4.",
+  5: "Termina em 0 ou 5.",
+  6: "É divisível por 2 e por 3 ao mesmo tempo.",
+  7: "Tire o último algarismo e subtraia o dobro dele do que sobrou; repita até o número ficar pequeno.",
+  8: "Os três últimos algarismos formam um múltiplo de 8.",
+  9: "A soma dos algarismos é múltiplo de 9.",
+  10: "Termina em 0.",
+  11: "A soma alternada dos algarismos (da direita: + − + …) é múltiplo de 11.",
+  12: "É divisível por 3 e por 4 ao mesmo tempo.",
+  25: "Termina em 00, 25, 50 ou 75.",
+};
+
+const verb = (yes: boolean) => (yes ? "é" : "não é");
+
+// Posições dos k últimos algarismos (todos, se o número for mais curto)
+const lastDigits = (digits: string, k: number) =>
+  Array.from(
+    { length: Math.min(k, digits.length) },
+    (_, i) => digits.length - 1 - i
+  ).reverse();
+
+const allDigits = (digits: string) => lastDigits(digits, digits.length);
+
+// "36 = 4 × 9" ou "38 = 4 × 9 + 2"
+const multipleNote = (m: number, by: number) => {
+  const q = Math.floor(m / by);
+  const r = m - by * q;
+  return r === 0 ? `${m} = ${by} × ${q}` : `${m} = ${by} × ${q} + ${r}`;
+};
+
+// Últimos k algarismos como número (o 0 à esquerda não muda nada)
+const endingStep = (digits: string, k: number, by: number): RuleStep[] => {
+  const ending = Number(digits.slice(-k));
+  const label = k === 2 ? "dois últimos" : "três últimos";
+  return [
+    {
+      text: `Os ${label} algarismos formam ${ending}.`,
+      digits: lastDigits(digits, k),
+    },
+    {
+      text: `${multipleNote(ending, by)}: ${ending} ${verb(
+        ending % by === 0
+      )} múltiplo de ${by}.`,
+      digits: lastDigits(digits, k),
+    },
+  ];
+};
+
+// Soma os algarismos e, se ainda for grande, soma de novo (o resto por 3 e
+// por 9 não muda)
+const digitSumSteps = (digits: string, by: 3 | 9): RuleStep[] => {
+  const steps: RuleStep[] = [];
+  let current = digits;
+  while (steps.length === 0 || current.length > 1) {
+    const sum = digitSum(Number(current));
+    steps.push({
+      text: `${steps.length === 0 ? "Somamos" : "Somamos de novo"}: ${[
+        ...current,
+      ].join(" + ")} = ${sum}.`,
+      digits: steps.length === 0 ? allDigits(digits) : [],
+    });
+    current = String(sum);
+  }
+  const sum = Number(current);
+  steps.push({
+    text: `${sum} ${verb(sum % by === 0)} múltiplo de ${by}.`,
+    digits: [],
+  });
+  return steps;
+};
+
+const lastDigitStep = (digits: string): RuleStep => ({
+  text: `O último algarismo é ${digits[digits.length - 1]}.`,
+  digits: lastDigits(digits, 1),
+});
+
+// 10a + u é múltiplo de 7 exatamente quando a − 2u é (10(a − 2u) = n − 21u)
+const sevenSteps = (digits: string): RuleStep[] => {
+  const steps: RuleStep[] = [];
+  let m = Number(digits);
+  while (m >= 100) {
+    const rest = Math.floor(m / 10);
+    const unit = m % 10;
+    const next = rest - 2 * unit;
+    steps.push({
+      text: `${m}: separamos o ${unit} e fazemos ${rest} − 2 × ${unit} = ${next}${
+        next < 0 ? ` (o sinal não importa: seguimos com ${-next})` : ""
+      }.`,
+      digits: steps.length === 0 ? lastDigits(digits, 1) : [],
+    });
+    m = Math.abs(next);
+  }
+  steps.push({
+    text: `${m} já é pequeno: ${multipleNote(m, 7)}, ${verb(
+      m % 7 === 0
+    )} múltiplo de 7.`,
+    digits: steps.length === 0 ? allDigits(digits) : [],
+  });
+  return steps;
+};
+
+const elevenSteps = (digits: string): RuleStep[] => {
+  const terms = [...digits]
+    .reverse()
+    .map((d, i) => (i === 0 ? d : `${i % 2 === 0 ? "+" : "−"} ${d}`))
+    .join(" ");
+  const alt = alternatingDigitSum(Number(digits));
+  return [
+    {
+      text: `Da direita para a esquerda, alternando + e −: ${terms} = ${alt}.`,
+      digits: allDigits(digits),
+    },
+    {
+      text: `${alt} ${verb(alt % 11 === 0)} múltiplo de 11${
+        alt === 0 ? " (0 é múltiplo de todo número)" : ""
+      }.`,
+      digits: [],
+    },
+  ];
+};
+
+// Para 6 e 12: dois critérios que precisam valer juntos
+const combinedSteps = (
+  digits: string,
+  parts: [number, RuleStep[]][]
+): RuleStep[] =>
+  parts.map(([by, steps]) => ({
+    text: `Por ${by}: ${steps
+      .map((s) => s.text)
+      .join(" ")
+      .replace(/^./, (c) => c.toLowerCase())}`,
+    digits: [...new Set(steps.flatMap((s) => s.digits))].sort((a, b) => a - b),
+  }));
+
+const ruleSteps = (digits: string, by: Divisor): RuleStep[] => {
+  const last = digits[digits.length - 1];
+  switch (by) {
+    case 2:
+      return [
+        lastDigitStep(digits),
+        {
+          text: `${last} ${Number(last) % 2 === 0 ? "é par" : "é ímpar"}.`,
+          digits: lastDigits(digits, 1),
+        },
+      ];
+    case 5:
+    case 10: {
+      const ok = by === 5 ? last === "0" || last === "5" : last === "0";
+      return [
+        lastDigitStep(digits),
+        {
+          text: `Por ${by} ${ok ? "basta" : "precisaria"} terminar em ${
+            by === 5 ? "0 ou 5" : "0"
+          }.`,
+          digits: lastDigits(digits, 1),
+        },
+      ];
+    }
+    case 3:
+    case 9:
+      return digitSumSteps(digits, by);
+    case 4:
+      return endingStep(digits, 2, 4);
+    case 8:
+      return endingStep(digits, 3, 8);
+    case 25: {
+      const ending = digits.slice(-2).padStart(2, "0");
+      return [
+        {
+          text: `Os dois últimos algarismos são ${ending}.`,
+          digits: lastDigits(digits, 2),
+        },
+        {
+          text: `${ending} ${
+            ["00", "25", "50", "75"].includes(ending) ? "está" : "não está"
+          } entre 00, 25, 50 e 75.`,
+          digits: lastDigits(digits, 2),
+        },
+      ];
+    }
+    case 6:
+      return combinedSteps(digits, [
+        [2, ruleSteps(digits, 2)],
+        [3, ruleSteps(digits, 3)],
+      ]);
+    case 12:
+      return combinedSteps(digits, [
+        [3, ruleSteps(digits, 3)],
+        [4, ruleSteps(digits, 4)],
+      ]);
+    case 7:
+      return sevenSteps(digits);
+    case 11:
+      return elevenSteps(digits);
+  }
+};
+
+// n inteiro; o sinal não muda a divisibilidade
+export const divisibilityRule = (n: number, by: Divisor): DivisibilityRule => {
+  const digits = String(Math.abs(n));
+  const divisible = n % by === 0;
+  const steps: RuleStep[] = [
+    ...(n < 0
+      ? [{ text: `O sinal não importa: olhamos para ${digits}.`, digits: [] }]
+      : []),
+    ...ruleSteps(digits, by),
+    {
+      text: `Então ${n} ${verb(divisible)} divisível por ${by}.`,
+      digits: [],
+    },
+  ];
+  return { rule: RULES[by], steps, divisible };
+};
+
+// Explicação corrida, para a correção dos exercícios
+export const divisibilityExplain = (n: number, by: Divisor) =>
+  divisibilityRule(n, by)
+    .steps.map((s) => s.text)
+    .join(" ");
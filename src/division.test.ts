@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import {
+  divisionMistake,
+  euclideanDivision,
+  parseQuotientRemainder,
+} from "./division";
+
+describe("euclideanDivision", () => {
+  it("divide números positivos", () => {
+    expect(euclideanDivision(17, 5)).toEqual({ q: 3, r: 2 });
+  });
+
+  it("mantém o resto entre 0 e o divisor com dividendo negativo", () => {
+    expect(euclideanDivision(-17, 5)).toEqual({ q: -4, r: 3 });
+    expect(euclideanDivision(-15, 5)).toEqual({ q: -3, r: 0 });
+  });
+
+  it("confere a = b × q + r com 0 ≤ r < |b|", () => {
+    for (let a = -30; a <= 30; a++) {
+      for (const b of [1, 2, 7, -3]) {
+        const { q, r } = euclideanDivision(a, b);
+        expect(b * q + r).toBe(a);
+        expect(r).toBeGreaterThanOrEqual(0);
+        expect(r).toBeLessThan(Math.abs(b));
+      }
+    }
+  });
+});
+
+describe("parseQuotientRemainder", () => {
+  it("aceita os formatos comuns", () => {
+    for (const text of [
+      "12 3",
+      "12, 3",
+      "12 r 3",
+      "q = 12; r = 3",
+      "Q=12 R=3",
+    ]) {
+      expect(parseQuotientRemainder(text)).toEqual({ q: 12, r: 3 });
+    }
+  });
+
+  it("respeita os rótulos em qualquer ordem", () => {
+    expect(parseQuotientRemainder("resto 3, quociente 12")).toEqual({
+      q: 12,
+      r: 3,
+    });
+  });
+
+  it("aceita quociente negativo", () => {
+    expect(parseQuotientRemainder("−4 3")).toEqual({ q: -4, r: 3 });
+  });
+
+  it("recusa textos que não são dois números", () => {
+    expect(parseQuotientRemainder("12")).toBeNull();
+    expect(parseQuotientRemainder("12 3 4")).toBeNull();
+    expect(parseQuotientRemainder("doze e três")).toBeNull();
+  });
+});
+
+describe("divisionMistake", () => {
+  it("aceita a resposta certa", () => {
+    expect(divisionMistake(17, 5, { q: 3, r: 2 })).toBeNull();
+    expect(divisionMistake(-17, 5, { q: -4, r: 3 })).toBeNull();
+  });
+
+  it("aponta resto maior ou igual ao divisor", () => {
+    expect(divisionMistake(17, 5, { q: 2, r: 7 })).toContain("mais um grupo");
+  });
+
+  it("aponta resto negativo (truncar em vez da convenção euclidiana)", () => {
+    expect(divisionMistake(-17, 5, { q: -3, r: -2 })).toContain(
+      "-17 = 5 × -4 + 3"
+    );
+  });
+
+  it("aponta quociente e resto trocados", () => {
+    expect(divisionMistake(17, 5, { q: 2, r: 3 })).toContain("trocou");
+  });
+
+  it("confere a identidade", () => {
+    expect(divisionMistake(17, 5, { q: 2, r: 4 })).toBe(
+      "5 × 2 + 4 = 14, mas deveria dar 17."
+    );
+  });
+});
@@ -0,0 +1,58 @@
+// ----------------------------------------------
+// Divisão com resto (convenção euclidiana: 0 ≤ r < |b|)
+// ----------------------------------------------
+export interface QuotientRemainder {
+  q: number;
+  r: number;
+}
+
+// Também para dividendos negativos: −17 ÷ 5 = −4, resto 3 (−17 = 5 × −4 + 3)
+export const euclideanDivision = (a: number, b: number): QuotientRemainder => {
+  const m = Math.abs(b);
+  const r = ((a % m) + m) % m;
+  return { q: (a - r) / b, r };
+};
+
+// Aceita "12 3", "12, 3", "12 r 3", "q = 12; r = 3" e "resto 3 quociente 12"
+export const parseQuotientRemainder = (
+  text: string
+): QuotientRemainder | null => {
+  const normalized = text.toLowerCase().replace(/−/g, "-");
+  const labeled = (label: string) =>
+    new RegExp(`(?:^|[^a-z])${label}\\s*[=:]?\\s*(-?\\d+)`).exec(normalized);
+  const q = labeled("(?:quociente|q)");
+  const r = labeled("(?:resto|r)");
+  if (q && r) return { q: Number(q[1]), r: Number(r[1]) };
+  const numbers = normalized.match(/-?\d+/g) ?? [];
+  const leftover = normalized
+    .replace(/-?\d+/g, " ")
+    .replace(/\b(?:quociente|resto|q|r)\b|[=:,;]/g, " ")
+    .trim();
+  if (numbers.length !== 2 || leftover !== "") return null;
+  return { q: Number(numbers[0]), r: Number(numbers[1]) };
+};
+
+// Erros clássicos, na ordem em que vale a pena apontar (null: está certo)
+export const divisionMistake = (
+  a: number,
+  b: number,
+  { q, r }: QuotientRemainder
+): string | null => {
+  const expected = euclideanDivision(a, b);
+  const m = Math.abs(b);
+  if (q === expected.r && r === expected.q && q !== r) {
+    return "Parece que você trocou o quociente e o resto.";
+  }
+  if (r < 0) {
+    return a < 0
+      ? `O resto nunca é negativo (0 ≤ r < ${m}). Com dividendo negativo, o quociente desce mais uma unidade: ${a} = ${b} × ${expected.q} + ${expected.r}.`
+      : `O resto nunca é negativo (0 ≤ r < ${m}).`;
+  }
+  if (r >= m) {
+    return `O resto (${r}) não pode ser maior ou igual ao divisor (${m}): ainda cabe mais um grupo.`;
+  }
+  if (b * q + r !== a) {
+    return `${b} × ${q} + ${r} = ${b * q + r}, mas deveria dar ${a}.`;
+  }
+  return null;
+};
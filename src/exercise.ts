@@ -0,0 +1,96 @@
+// ----------------------------------------------
+// Modelo de exercício (um formato por tipo)
+// ----------------------------------------------
+export const TYPES = [
+  "divisibilidade",
+  "primos",
+  "fatoracao",
+  "potenciacao",
+  "resto",
+  "mdc_mmc",
+  "divisao",
+] as const;
+export type ExerciseType = (typeof TYPES)[number];
+
+interface ExerciseBase {
+  prompt: string;
+  explain: string;
+}
+export interface DivisibilidadeExercise extends ExerciseBase {
+  type: "divisibilidade";
+  n: number;
+  by: number;
+}
+export interface PrimosExercise extends ExerciseBase {
+  type: "primos";
+  n: number;
+}
+export interface FatoracaoExercise extends ExerciseBase {
+  type: "fatoracao";
+  value: number; // usado para validar produto
+  expected: number[]; // multiconjunto esperado (ordem livre)
+}
+export interface PotenciacaoExercise extends ExerciseBase {
+  type: "potenciacao";
+  base: number;
+  exp: number;
+}
+export interface RestoExercise extends ExerciseBase {
+  type: "resto";
+  a: number;
+  b: number;
+}
+export interface MdcMmcExercise extends ExerciseBase {
+  type: "mdc_mmc";
+  a: number;
+  b: number;
+  ask: "mdc" | "mmc";
+}
+// Quociente e resto juntos (a pode ser negativo no nível avançado)
+export interface DivisaoExercise extends ExerciseBase {
+  type: "divisao";
+  a: number;
+  b: number;
+}
+export type Exercise =
+  | DivisibilidadeExercise
+  | PrimosExercise
+  | FatoracaoExercise
+  | PotenciacaoExercise
+  | RestoExercise
+  | MdcMmcExercise
+  | DivisaoExercise;
+export type ExerciseOf<K extends ExerciseType> = Extract<Exercise, { type: K }>;
+
+export const isExerciseType = (value: unknown): value is ExerciseType =>
+  TYPES.some((t) => t === value);
+
+// Campos numéricos obrigatórios de cada tipo (para validar dados salvos)
+const NUMERIC_FIELDS: { [K in ExerciseType]: (keyof ExerciseOf<K>)[] } = {
+  divisibilidade: ["n", "by"],
+  primos: ["n"],
+  fatoracao: ["value"],
+  potenciacao: ["base", "exp"],
+  resto: ["a", "b"],
+  mdc_mmc: ["a", "b"],
+  divisao: ["a", "b"],
+};
+
+export const isExercise = (value: unknown): value is Exercise => {
+  if (typeof value !== "object" || value === null) return false;
+  const ex = value as Record<string, unknown>;
+  if (!isExerciseType(ex.type)) return false;
+  if (typeof ex.prompt !== "string" || typeof ex.explain !== "string") {
+    return false;
+  }
+  const fields = NUMERIC_FIELDS[ex.type] as string[];
+  if (!fields.every((f) => Number.isFinite(ex[f]))) return false;
+  if (ex.type === "fatoracao") {
+    return (
+      Array.isArray(ex.expected) &&
+      ex.expected.every((k: unknown) => Number.isFinite(k))
+    );
+  }
+  if (ex.type === "mdc_mmc") return ex.ask === "mdc" || ex.ask === "mmc";
+  return true;
+};
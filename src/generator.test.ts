@@ -0,0 +1,126 @@
+import { describe, expect, it } from "vitest";
+import { checkAnswer, expectedAnswer } from "./checkers";
+import { TYPES, isExercise } from "./exercise";
+import {
+  DIFFICULTIES,
+  DIFFICULTY_CONFIG,
+  GENERATOR_VERSION,
+  exerciseFor,
+  generateExercise,
+  generatorVersionOf,
+  isDifficulty,
+} from "./generator";
+import { createRng, pick, randInt } from "./random";
+
+const batch = (seed: string, difficulty: (typeof DIFFICULTIES)[number]) => {
+  const rng = createRng(seed);
+  return Array.from({ length: 50 }, () => generateExercise(rng, difficulty));
+};
+
+describe("generateExercise", () => {
+  it("a mesma semente e o mesmo nível dão os mesmos exercícios", () => {
+    for (const d of DIFFICULTIES) {
+      expect(batch("semente", d)).toEqual(batch("semente", d));
+    }
+  });
+
+  it("o nível muda os exercícios", () => {
+    expect(batch("semente", "iniciante")).not.toEqual(
+      batch("semente", "avancado")
+    );
+  });
+
+  it("gera todos os tipos, válidos e com o gabarito aceito pelo corretor", () => {
+    for (const d of DIFFICULTIES) {
+      const rng = createRng(`gabarito-${d}`);
+      for (const type of TYPES) {
+        for (let i = 0; i < 20; i++) {
+          const ex = generateExercise(rng, d, type);
+          expect(ex.type).toBe(type);
+          expect(isExercise(ex)).toBe(true);
+          expect(checkAnswer(ex, expectedAnswer(ex)).correct).toBe(true);
+        }
+      }
+    }
+  });
+
+  it("respeita as faixas de cada nível", () => {
+    for (const d of DIFFICULTIES) {
+      const config = DIFFICULTY_CONFIG[d];
+      const rng = createRng(`faixas-${d}`);
+      for (let i = 0; i < 100; i++) {
+        const div = generateExercise(rng, d, "divisibilidade");
+        if (div.type !== "divisibilidade") throw new Error("tipo errado");
+        expect(config.divisibilidade.divisors).toContain(div.by);
+        expect(div.n).toBeGreaterThanOrEqual(config.divisibilidade.range[0]);
+        expect(div.n).toBeLessThanOrEqual(config.divisibilidade.range[1]);
+
+        const pot = generateExercise(rng, d, "potenciacao");
+        if (pot.type !== "potenciacao") throw new Error("tipo errado");
+        expect(pot.exp).toBeGreaterThanOrEqual(config.potenciacao.exps[0]);
+        expect(pot.exp).toBeLessThanOrEqual(config.potenciacao.exps[1]);
+
+        const mdc = generateExercise(rng, d, "mdc_mmc");
+        if (mdc.type !== "mdc_mmc") throw new Error("tipo errado");
+        expect(mdc.a).not.toBe(mdc.b);
+      }
+    }
+  });
+
+  it("só o avançado sorteia dividendos negativos", () => {
+    const negatives = (d: (typeof DIFFICULTIES)[number]) => {
+      const rng = createRng(`negativos-${d}`);
+      return Array.from({ length: 100 }, () =>
+        generateExercise(rng, d, "divisao")
+      ).filter((ex) => ex.type === "divisao" && ex.a < 0).length;
+    };
+    expect(negatives("iniciante")).toBe(0);
+    expect(negatives("avancado")).toBeGreaterThan(0);
+  });
+});
+
+describe("isDifficulty", () => {
+  it("aceita só os níveis conhecidos", () => {
+    expect(isDifficulty("avancado")).toBe(true);
+    expect(isDifficulty("facil")).toBe(false);
+    expect(isDifficulty(null)).toBe(false);
+  });
+});
+
+describe("versões do sorteio", () => {
+  it("a versão 1 repete a ordem antiga da divisibilidade", () => {
+    const rng = createRng("antigo#1");
+    const n = randInt(rng, 1000, 99999);
+    const by = pick(rng, [4, 6, 9, 11]);
+    const ex = exerciseFor("antigo", 1, "avancado", () => "divisibilidade", 1);
+    expect(ex).toMatchObject({ type: "divisibilidade", n, by });
+  });
+
+  it("a versão 1 repete um link de antes de MDC/MMC e divisão", () => {
+    // Série de ?seed=turma7a&nivel=intermediario gerada antes dos tópicos novos
+    const prompts = [1, 2, 3, 4, 5].map(
+      (round) =>
+        exerciseFor("turma7a", round, "intermediario", undefined, 1).prompt
+    );
+    expect(prompts).toEqual([
+      "O número 741 é divisível por 9? (S/N)",
+      "Em 907 ÷ 8, qual é o resto?",
+      "Em 998 ÷ 14, qual é o resto?",
+      "85 é primo? (S/N)",
+      "Fatore 28 em primos.",
+    ]);
+  });
+
+  it("a versão atual é a padrão", () => {
+    expect(exerciseFor("nova", 3, "intermediario")).toEqual(
+      exerciseFor("nova", 3, "intermediario", undefined, GENERATOR_VERSION)
+    );
+  });
+
+  it("links sem versão (ou com versão inválida) usam a 1", () => {
+    expect(generatorVersionOf(null)).toBe(1);
+    expect(generatorVersionOf("abc")).toBe(1);
+    expect(generatorVersionOf(String(GENERATOR_VERSION + 1))).toBe(1);
+    expect(generatorVersionOf("2")).toBe(2);
+  });
+});
@@ -0,0 +1,277 @@
+import { divisibilityExplain, type Divisor } from "./divisibility";
+import { euclideanDivision } from "./division";
+import { TYPES, type Exercise, type ExerciseType } from "./exercise";
+import {
+  euclidSteps,
+  formatFactorization,
+  gcd,
+  isPrime,
+  lcm,
+  primeFactors,
+  smallestFactor,
+} from "./math";
+import { createRng, pick, randInt, type Rng } from "./random";
+
+// ----------------------------------------------
+// Níveis de dificuldade (faixas numéricas de cada gerador)
+// ----------------------------------------------
+export const DIFFICULTIES = ["iniciante", "intermediario", "avancado"] as const;
+export type Difficulty = (typeof DIFFICULTIES)[number];
+
+type Range = [min: number, max: number];
+
+export interface DifficultyConfig {
+  label: string;
+  description: string;
+  divisibilidade: { range: Range; divisors: Divisor[] };
+  primos: { range: Range };
+  fatoracao: { primes: number[]; factors: Range; max: number };
+  potenciacao: { bases: Range; exps: Range };
+  resto: { dividend: Range; divisor: Range };
+  // a = d × x e b = d × y, para o MDC não ser quase sempre 1
+  mdc_mmc: { common: Range; multipliers: Range };
+  // negative: metade dos dividendos fica negativa (convenção euclidiana)
+  divisao: { dividend: Range; divisor: Range; negative: boolean };
+}
+
+export const DIFFICULTY_CONFIG: Record<Difficulty, DifficultyConfig> = {
+  iniciante: {
+    label: "Iniciante",
+    description: "Números até 200, regras do 2, 3, 5 e 10.",
+    divisibilidade: { range: [10, 199], divisors: [2, 3, 5, 10] },
+    primos: { range: [10, 40] },
+    fatoracao: { primes: [2, 3, 5], factors: [2, 3], max: 60 },
+    potenciacao: { bases: [2, 5], exps: [2, 4] },
+    resto: { dividend: [10, 99], divisor: [3, 11] },
+    mdc_mmc: { common: [2, 6], multipliers: [1, 6] },
+    divisao: { dividend: [10, 99], divisor: [2, 9], negative: false },
+  },
+  intermediario: {
+    label: "Intermediário",
+    description:
+      "Números até 1000, regras do 4, 6, 8, 9 e 25, expoentes até 5.",
+    divisibilidade: {
+      range: [100, 999],
+      divisors: [2, 3, 4, 5, 6, 8, 9, 10, 25],
+    },
+    primos: { range: [40, 150] },
+    fatoracao: { primes: [2, 3, 5, 7], factors: [3, 4], max: 400 },
+    potenciacao: { bases: [2, 9], exps: [0, 5] },
+    resto: { dividend: [100, 999], divisor: [3, 19] },
+    mdc_mmc: { common: [2, 12], multipliers: [2, 10] },
+    divisao: { dividend: [100, 999], divisor: [3, 19], negative: false },
+  },
+  avancado: {
+    label: "Avançado",
+    description:
+      "Números grandes, regras do 7, 11 e 12, primos repetidos e expoentes altos.",
+    divisibilidade: {
+      range: [1000, 99999],
+      divisors: [4, 6, 7, 8, 9, 11, 12, 25],
+    },
+    primos: { range: [150, 1000] },
+    fatoracao: { primes: [2, 3, 5, 7, 11, 13], factors: [4, 6], max: 5000 },
+    potenciacao: { bases: [2, 12], exps: [3, 8] },
+    resto: { dividend: [1000, 9999], divisor: [11, 99] },
+    mdc_mmc: { common: [4, 30], multipliers: [3, 15] },
+    divisao: { dividend: [10, 999], divisor: [2, 12], negative: true },
+  },
+};
+
+export const isDifficulty = (value: string | null): value is Difficulty =>
+  DIFFICULTIES.some((d) => d === value);
+
+// ----------------------------------------------
+// Versões do sorteio (links com semente continuam dando as mesmas questões)
+// ----------------------------------------------
+// 1: os cinco tópicos originais; 2: com MDC/MMC e divisão, e a divisibilidade
+// sorteia o divisor primeiro e, metade das vezes, um múltiplo
+export const GENERATOR_VERSION = 2;
+
+// Versão do link (?versao=); links sem ela são anteriores à versão 2
+export const generatorVersionOf = (value: string | null) => {
+  const version = Number(value);
+  return Number.isInteger(version) &&
+    version >= 1 &&
+    version <= GENERATOR_VERSION
+    ? version
+    : 1;
+};
+
+const V1_TYPES: ExerciseType[] = [
+  "divisibilidade",
+  "primos",
+  "fatoracao",
+  "potenciacao",
+  "resto",
+];
+
+// Divisores da versão 1, antes das regras do 7, 8, 12 e 25
+const V1_DIVISORS: Record<Difficulty, Divisor[]> = {
+  iniciante: [2, 3, 5, 10],
+  intermediario: [2, 3, 4, 5, 6, 9, 10],
+  avancado: [4, 6, 9, 11],
+};
+
+// Multiplica primos sorteados (com repetição) sem passar do limite
+const composeFromPrimes = (
+  rng: Rng,
+  { primes, factors, max }: DifficultyConfig["fatoracao"]
+) => {
+  const count = randInt(rng, factors[0], factors[1]);
+  let value = 1;
+  for (let i = 0; i < count; i++) {
+    const p = pick(rng, primes);
+    if (i < 2 || value * p <= max) value *= p;
+  }
+  return value;
+};
+
+export const generateExercise = (
+  rng: Rng,
+  difficulty: Difficulty,
+  topic?: ExerciseType,
+  version = GENERATOR_VERSION
+): Exercise => {
+  const config = DIFFICULTY_CONFIG[difficulty];
+  const type = topic ?? pick(rng, version === 1 ? V1_TYPES : TYPES);
+  switch (type) {
+    case "divisibilidade": {
+      const { range, divisors } = config.divisibilidade;
+      let n: number;
+      let by: Divisor;
+      if (version === 1) {
+        n = randInt(rng, ...range);
+        by = pick(rng, V1_DIVISORS[difficulty]);
+      } else {
+        by = pick(rng, divisors);
+        // Metade das vezes sorteia um múltiplo: com 7, 11 e 12 quase tudo daria Não
+        n =
+          rng() < 0.5
+            ? by *
+              randInt(rng, Math.ceil(range[0] / by), Math.floor(range[1] / by))
+            : randInt(rng, ...range);
+      }
+      return {
+        type,
+        n,
+        by,
+        prompt: `O número ${n} é divisível por ${by}? (S/N)`,
+        explain: divisibilityExplain(n, by),
+      };
+    }
+    case "primos": {
+      // Metade das vezes avança até um primo, para equilibrar Sim/Não
+      let n = randInt(rng, ...config.primos.range);
+      if (rng() < 0.5) while (!isPrime(n)) n++;
+      return {
+        type,
+        n,
+        prompt: `${n} é primo? (S/N)`,
+        explain: isPrime(n)
+          ? `${n} tem apenas dois divisores (1 e ele mesmo).`
+          : `${n} não é primo; menor divisor: ${smallestFactor(n) ?? "—"}.`,
+      };
+    }
+    case "fatoracao": {
+      const n = composeFromPrimes(rng, config.fatoracao);
+      const expectedFactors = primeFactors(n);
+      return {
+        type,
+        value: n,
+        expected: expectedFactors,
+        prompt: `Fatore ${n} em primos.`,
+        explain: `Fatoração: ${formatFactorization(expectedFactors)}.`,
+      };
+    }
+    case "potenciacao": {
+      const base = randInt(rng, ...config.potenciacao.bases);
+      const exp = randInt(rng, ...config.potenciacao.exps);
+      return {
+        type,
+        base,
+        exp,
+        prompt: `Calcule ${base}^${exp} (${base} elevado a ${exp}).`,
+        explain:
+          exp === 0
+            ? `Todo número (diferente de 0) elevado a 0 é 1.`
+            : `${base} multiplicado por si mesmo ${exp} vezes = ${Math.pow(
+                base,
+                exp
+              )}`,
+      };
+    }
+    case "resto": {
+      const a = randInt(rng, ...config.resto.dividend);
+      const b = randInt(rng, ...config.resto.divisor);
+      const q = Math.floor(a / b);
+      const r = a % b;
+      return {
+        type,
+        a,
+        b,
+        prompt: `Em ${a} ÷ ${b}, qual é o resto?`,
+        explain: `${a} = ${b} × ${q} + ${r}.`,
+      };
+    }
+    case "mdc_mmc": {
+      const { common, multipliers } = config.mdc_mmc;
+      const d = randInt(rng, ...common);
+      const x = randInt(rng, ...multipliers);
+      let y = randInt(rng, ...multipliers);
+      if (y === x) y = x + 1;
+      const [a, b] = [d * x, d * y];
+      const ask = pick(rng, ["mdc", "mmc"] as const);
+      const divisions = euclidSteps(a, b)
+        .map(
+          (st) =>
+            `${st.dividend} = ${st.divisor} × ${st.quotient} + ${st.remainder}`
+        )
+        .join("; ");
+      return {
+        type,
+        a,
+        b,
+        ask,
+        prompt:
+          ask === "mdc"
+            ? `Qual é o MDC de ${a} e ${b}?`
+            : `Qual é o MMC de ${a} e ${b}?`,
+        explain:
+          ask === "mdc"
+            ? `Euclides: ${divisions}. O último divisor, ${gcd(a, b)}, é o MDC.`
+            : `MMC = ${a} × ${b} ÷ MDC = ${a * b} ÷ ${gcd(a, b)} = ${lcm(
+                a,
+                b
+              )}.`,
+      };
+    }
+    case "divisao": {
+      const { dividend, divisor, negative } = config.divisao;
+      const b = randInt(rng, ...divisor);
+      let a = randInt(rng, ...dividend);
+      if (negative && rng() < 0.5) a = -a;
+      const { q, r } = euclideanDivision(a, b);
+      return {
+        type,
+        a,
+        b,
+        prompt: `Em ${a} ÷ ${b}, quais são o quociente e o resto? (q r)`,
+        explain: `${a} = ${b} × ${q} + ${r}, com 0 ≤ ${r} < ${b}.`,
+      };
+    }
+  }
+};
+
+// Cada rodada tem seu próprio gerador: (semente, rodada) → mesmo exercício.
+// pickTopic (modo adaptativo) sorteia o tópico com o mesmo gerador.
+export const exerciseFor = (
+  seed: string,
+  round: number,
+  difficulty: Difficulty,
+  pickTopic?: (rng: Rng) => ExerciseType,
+  version = GENERATOR_VERSION
+) => {
+  const rng = createRng(`${seed}#${round}`);
+  return generateExercise(rng, difficulty, pickTopic?.(rng), version);
+};
@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import {
+  accuracyOverTime,
+  activityCalendar,
+  periodKey,
+  xpOverTime,
+} from "./history";
+import type { AnswerEvent } from "./stats";
+import type { Exercise } from "./exercise";
+
+const primos: Exercise = {
+  type: "primos",
+  n: 21,
+  prompt: "21 é primo? (S/N)",
+  explain: "21 não é primo; menor divisor: 3.",
+};
+const resto: Exercise = {
+  type: "resto",
+  a: 17,
+  b: 5,
+  prompt: "Resto de 17 ÷ 5?",
+  explain: "17 = 5 × 3 + 2.",
+};
+
+// Datas ao meio-dia local: o dia não muda com o fuso da máquina de testes
+const at = (y: number, m: number, d: number) =>
+  new Date(y, m - 1, d, 12).toISOString();
+
+const event = (
+  when: string,
+  exercise: Exercise,
+  correct: boolean
+): AnswerEvent => ({ at: when, exercise, answer: "", correct, ms: null });
+
+describe("periodKey", () => {
+  it("agrupa a semana pela segunda-feira", () => {
+    // 2025-09-21 é domingo; 2025-09-22, segunda
+    expect(periodKey(new Date(2025, 8, 21, 12), "semana")).toBe("2025-09-15");
+    expect(periodKey(new Date(2025, 8, 22, 12), "semana")).toBe("2025-09-22");
+    expect(periodKey(new Date(2025, 8, 21, 12), "dia")).toBe("2025-09-21");
+  });
+});
+
+describe("accuracyOverTime", () => {
+  const history = [
+    event(at(2025, 9, 15), primos, true),
+    event(at(2025, 9, 15), primos, false),
+    event(at(2025, 9, 16), resto, true),
+    event(at(2025, 9, 22), primos, true),
+  ];
+
+  it("calcula o acerto por tópico em cada dia", () => {
+    expect(accuracyOverTime(history, "dia")).toEqual([
+      { periodo: "2025-09-15", primos: 50 },
+      { periodo: "2025-09-16", resto: 100 },
+      { periodo: "2025-09-22", primos: 100 },
+    ]);
+  });
+
+  it("calcula o acerto por tópico em cada semana", () => {
+    expect(accuracyOverTime(history, "semana")).toEqual([
+      { periodo: "2025-09-15", primos: 50, resto: 100 },
+      { periodo: "2025-09-22", primos: 100 },
+    ]);
+  });
+});
+
+describe("xpOverTime", () => {
+  it("ordena os dias e acumula o XP", () => {
+    expect(xpOverTime({ "2025-09-16": 10, "2025-09-15": 5 })).toEqual([
+      { dia: "2025-09-15", XP: 5, total: 5 },
+      { dia: "2025-09-16", XP: 10, total: 15 },
+    ]);
+  });
+});
+
+describe("activityCalendar", () => {
+  it("monta semanas de segunda a domingo terminando hoje", () => {
+    const now = new Date(2025, 8, 24, 12); // quarta-feira
+    const calendar = activityCalendar(
+      [
+        event(at(2025, 9, 22), primos, true),
+        event(at(2025, 9, 22), resto, false),
+      ],
+      2,
+      now
+    );
+    expect(calendar).toHaveLength(2);
+    expect(calendar[0]).toHaveLength(7);
+    expect(calendar[0][0].day).toBe("2025-09-15");
+    expect(calendar[1].map((d) => d.day)).toEqual([
+      "2025-09-22",
+      "2025-09-23",
+      "2025-09-24",
+    ]);
+    expect(calendar[1][0].count).toBe(2);
+  });
+});
@@ -0,0 +1,87 @@
+import { dayKey, type AnswerEvent } from "./stats";
+
+// ----------------------------------------------
+// Evolução no tempo (a partir de Stats.history e Stats.xpByDay)
+// ----------------------------------------------
+export type Period = "dia" | "semana";
+
+// Segunda-feira da semana da data (semanas de segunda a domingo)
+const startOfWeek = (date: Date) => {
+  const d = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  d.setDate(d.getDate() - ((d.getDay() + 6) % 7));
+  return d;
+};
+
+export const periodKey = (date: Date, period: Period) =>
+  dayKey(period === "dia" ? date : startOfWeek(date));
+
+// Uma linha por período; cada tópico respondido vira uma coluna (0–100)
+export type AccuracyRow = { periodo: string } & Record<string, number | string>;
+
+export const accuracyOverTime = (
+  history: AnswerEvent[],
+  period: Period
+): AccuracyRow[] => {
+  const buckets = new Map<string, Map<string, [number, number]>>();
+  for (const e of history) {
+    const key = periodKey(new Date(e.at), period);
+    const topics = buckets.get(key) ?? new Map<string, [number, number]>();
+    const [correct, total] = topics.get(e.exercise.type) ?? [0, 0];
+    topics.set(e.exercise.type, [correct + (e.correct ? 1 : 0), total + 1]);
+    buckets.set(key, topics);
+  }
+  return [...buckets.keys()].sort().map((periodo) => {
+    const row: AccuracyRow = { periodo };
+    for (const [topic, [correct, total]] of buckets.get(periodo)!) {
+      row[topic] = Math.round((correct / total) * 100);
+    }
+    return row;
+  });
+};
+
+// XP do dia e acumulado, só nos dias com XP
+export const xpOverTime = (xpByDay: Record<string, number>) => {
+  let total = 0;
+  return Object.keys(xpByDay)
+    .sort()
+    .map((dia) => {
+      total += xpByDay[dia];
+      return { dia, XP: xpByDay[dia], total };
+    });
+};
+
+// Calendário de atividade: colunas = semanas, linhas = seg..dom.
+// A última coluna termina hoje (dias futuros ficam de fora).
+export interface ActivityDay {
+  day: string;
+  count: number;
+}
+
+export const activityCalendar = (
+  history: AnswerEvent[],
+  weeks: number,
+  now = new Date()
+): ActivityDay[][] => {
+  const counts = new Map<string, number>();
+  for (const e of history) {
+    const key = dayKey(new Date(e.at));
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+  const today = dayKey(now);
+  const first = startOfWeek(now);
+  first.setDate(first.getDate() - 7 * (weeks - 1));
+
+  const columns: ActivityDay[][] = [];
+  for (let w = 0; w < weeks; w++) {
+    const column: ActivityDay[] = [];
+    for (let d = 0; d < 7; d++) {
+      const date = new Date(first);
+      date.setDate(first.getDate() + w * 7 + d);
+      const day = dayKey(date);
+      if (day > today) break;
+      column.push({ day, count: counts.get(day) ?? 0 });
+    }
+    columns.push(column);
+  }
+  return columns;
+};
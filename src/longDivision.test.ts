@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { describeStep, longDivision, longDivisionSteps } from "./longDivision";
+
+describe("longDivision", () => {
+  it("divide algarismo por algarismo", () => {
+    const d = longDivision(1234, 7);
+    expect(d).toMatchObject({ quotient: 176, remainder: 2 });
+    expect(d.cycles.map((c) => [c.partial, c.digit, c.remainder])).toEqual([
+      [12, 1, 5],
+      [53, 7, 4],
+      [44, 6, 2],
+    ]);
+  });
+
+  it("começa pelo menor pedaço que dá para dividir", () => {
+    const d = longDivision(384, 12);
+    expect(d.cycles[0]).toMatchObject({ partial: 38, end: 1, digit: 3 });
+  });
+
+  it("escreve 0 no quociente quando o pedaço é menor que o divisor", () => {
+    const d = longDivision(7035, 7);
+    expect(d.quotient).toBe(1005);
+    expect(d.cycles.map((c) => c.digit)).toEqual([1, 0, 0, 5]);
+  });
+
+  it("dividendo menor que o divisor dá quociente 0", () => {
+    expect(longDivision(5, 9)).toMatchObject({ quotient: 0, remainder: 5 });
+  });
+
+  it("confere a identidade a = b × q + r", () => {
+    for (const [a, b] of [
+      [987654, 321],
+      [1000, 1],
+      [0, 4],
+      [99999, 100],
+    ]) {
+      const { quotient, remainder } = longDivision(a, b);
+      expect(b * quotient + remainder).toBe(a);
+      expect(remainder).toBeLessThan(b);
+    }
+  });
+});
+
+describe("longDivisionSteps", () => {
+  it("pula multiplicar e subtrair nos ciclos com 0", () => {
+    const kinds = longDivisionSteps(longDivision(703, 7)).map((s) => s.kind);
+    expect(kinds).toEqual([
+      "separate",
+      "estimate",
+      "multiply",
+      "subtract",
+      "bringDown",
+      "estimate",
+      "bringDown",
+      "estimate",
+      "done",
+    ]);
+  });
+
+  it("termina com a identidade da divisão", () => {
+    const d = longDivision(1234, 7);
+    expect(describeStep(d, { kind: "done" })).toContain("1234 = 7 × 176 + 2");
+  });
+});
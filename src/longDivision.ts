@@ -0,0 +1,105 @@
+// ----------------------------------------------
+// Divisão pelo método da chave (algarismo por algarismo)
+// ----------------------------------------------
+export interface LongDivisionCycle {
+  partial: number; // número dividido neste ciclo
+  end: number; // índice do último algarismo do dividendo já usado
+  digit: number; // algarismo do quociente
+  product: number; // digit × divisor
+  remainder: number; // partial − product
+}
+
+export interface LongDivision {
+  dividend: number;
+  divisor: number;
+  quotient: number;
+  remainder: number;
+  cycles: LongDivisionCycle[];
+}
+
+// Dividendo inteiro ≥ 0 e divisor inteiro ≥ 1
+export const longDivision = (
+  dividend: number,
+  divisor: number
+): LongDivision => {
+  const digits = String(dividend).split("").map(Number);
+  // Primeiro ciclo: o menor começo do dividendo que já dá para dividir
+  let end = 0;
+  let partial = digits[0];
+  while (partial < divisor && end < digits.length - 1) {
+    end += 1;
+    partial = partial * 10 + digits[end];
+  }
+  const cycles: LongDivisionCycle[] = [];
+  for (;;) {
+    const digit = Math.floor(partial / divisor);
+    const product = digit * divisor;
+    cycles.push({ partial, end, digit, product, remainder: partial - product });
+    if (end === digits.length - 1) break;
+    end += 1;
+    partial = (partial - product) * 10 + digits[end];
+  }
+  const last = cycles[cycles.length - 1];
+  return {
+    dividend,
+    divisor,
+    quotient: Number(cycles.map((c) => c.digit).join("")),
+    remainder: last.remainder,
+    cycles,
+  };
+};
+
+// Um passo da animação: separar, estimar, multiplicar, subtrair, baixar
+export type LongDivisionStep =
+  | { kind: "separate"; cycle: number }
+  | { kind: "estimate"; cycle: number }
+  | { kind: "multiply"; cycle: number }
+  | { kind: "subtract"; cycle: number }
+  | { kind: "bringDown"; cycle: number } // cycle: o ciclo que começa
+  | { kind: "done" };
+
+// Ciclos com algarismo 0 não têm conta: só se escreve 0 e baixa o próximo
+export const longDivisionSteps = ({ cycles }: LongDivision) => {
+  const steps: LongDivisionStep[] = [{ kind: "separate", cycle: 0 }];
+  cycles.forEach((c, i) => {
+    if (i > 0) steps.push({ kind: "bringDown", cycle: i });
+    steps.push({ kind: "estimate", cycle: i });
+    if (c.digit > 0) {
+      steps.push({ kind: "multiply", cycle: i });
+      steps.push({ kind: "subtract", cycle: i });
+    }
+  });
+  steps.push({ kind: "done" });
+  return steps;
+};
+
+export const describeStep = (
+  division: LongDivision,
+  step: LongDivisionStep
+): string => {
+  const { dividend, divisor, quotient, remainder } = division;
+  if (step.kind === "done") {
+    return `Não há mais algarismos para baixar. ${dividend} = ${divisor} × ${quotient} + ${remainder}.`;
+  }
+  const c = division.cycles[step.cycle];
+  switch (step.kind) {
+    case "separate":
+      return dividend < divisor
+        ? `${dividend} é menor que ${divisor}: não dá para dividir.`
+        : `Separamos ${c.partial}: é o menor começo de ${dividend} que dá para dividir por ${divisor}.`;
+    case "estimate":
+      return c.digit === 0
+        ? `${c.partial} é menor que ${divisor}: escrevemos 0 no quociente.`
+        : `Quantas vezes ${divisor} cabe em ${c.partial}? ${
+            c.digit
+          } (${divisor} × ${c.digit + 1} = ${
+            divisor * (c.digit + 1)
+          } já passa).`;
+    case "multiply":
+      return `${c.digit} × ${divisor} = ${c.product}: escrevemos embaixo de ${c.partial}.`;
+    case "subtract":
+      return `${c.partial} − ${c.product} = ${c.remainder}.`;
+    case "bringDown":
+      return `Baixamos o ${String(dividend)[c.end]}: agora temos ${c.partial}.`;
+  }
+};
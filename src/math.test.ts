@@ -0,0 +1,290 @@
+import fc from "fast-check";
+import { describe, expect, it } from "vitest";
+import {
+  MAX_FACTOR_DIGITS,
+  divisibilityInfo,
+  divisorCount,
+  divisorsFromFactors,
+  euclidSteps,
+  formatFactorization,
+  gcd,
+  isPrime,
+  isPrimeBig,
+  lcm,
+  multisetEqual,
+  normalizeFactorsInput,
+  parseWholeNumber,
+  pollardRho,
+  powBig,
+  powerDigitCount,
+  primeFactors,
+  primeFactorsBig,
+  productOf,
+  sieveEvents,
+  simultaneousFactorization,
+  smallestFactor,
+} from "./math";
+
+const product = (factors: bigint[]) => factors.reduce((a, b) => a * b, 1n);
+
+describe("isPrimeBig", () => {
+  it("concorda com a divisão por tentativas nos números pequenos", () => {
+    for (let n = 0; n < 2000; n++) {
+      expect(isPrimeBig(BigInt(n))).toBe(isPrime(n));
+    }
+  });
+
+  it("não se engana com números de Carmichael", () => {
+    for (const n of [561n, 1105n, 41041n, 825265n]) {
+      expect(isPrimeBig(n)).toBe(false);
+    }
+  });
+
+  it("reconhece primos de Mersenne grandes", () => {
+    expect(isPrimeBig(2n ** 61n - 1n)).toBe(true);
+    expect(isPrimeBig(2n ** 89n - 1n)).toBe(true);
+    expect(isPrimeBig((2n ** 61n - 1n) * (2n ** 31n - 1n))).toBe(false);
+  });
+});
+
+describe("primeFactorsBig", () => {
+  it("fatora além de 2^53 com o rho de Pollard", () => {
+    expect(primeFactorsBig(2n ** 67n - 1n)).toEqual([
+      193707721n,
+      761838257287n,
+    ]);
+  });
+
+  it("devolve os fatores em ordem e com repetição", () => {
+    expect(primeFactorsBig(600851475143n)).toEqual([71n, 839n, 1471n, 6857n]);
+    expect(primeFactorsBig(2n ** 70n)).toHaveLength(70);
+  });
+
+  it("o produto dos fatores é o número", () => {
+    for (const n of [
+      12345678910111213n,
+      99999999999999999999n,
+      (2n ** 31n - 1n) ** 2n * 3n,
+    ]) {
+      const factors = primeFactorsBig(n);
+      expect(product(factors)).toBe(n);
+      expect(factors.every(isPrimeBig)).toBe(true);
+    }
+  });
+
+  it("pollardRho acha um divisor não trivial", () => {
+    const n = 1000003n * 1000033n;
+    const d = pollardRho(n);
+    expect(d > 1n && d < n && n % d === 0n).toBe(true);
+  });
+});
+
+describe("versões com number", () => {
+  it("usam bigint por baixo quando a divisão por tentativas seria lenta", () => {
+    const n = 2 ** 53 - 1; // 6361 × 69431 × 20394401
+    expect(primeFactors(n)).toEqual([6361, 69431, 20394401]);
+    expect(smallestFactor(n)).toBe(6361);
+    expect(isPrime(2 ** 31 - 1)).toBe(true);
+    expect(isPrime(4294967311)).toBe(true); // primeiro primo acima de 2³²
+  });
+
+  it("decimais não são primos", () => {
+    expect(isPrime(2.5)).toBe(false);
+  });
+});
+
+describe("potências exatas", () => {
+  it("calcula sem perder algarismos", () => {
+    expect(powBig(2n, 100)).toBe(1267650600228229401496703205376n);
+  });
+
+  it("estima o número de algarismos", () => {
+    expect(powerDigitCount(2, 100)).toBe(31);
+    expect(powerDigitCount(10, 3)).toBe(4);
+    expect(powerDigitCount(1, 5000)).toBe(1);
+  });
+});
+
+describe("parseWholeNumber", () => {
+  it("aceita separadores de milhar", () => {
+    expect(parseWholeNumber("1 000.000", 20)).toEqual({
+      ok: true,
+      value: 1000000n,
+    });
+  });
+
+  it("recusa textos e números grandes demais", () => {
+    expect(parseWholeNumber("12a", 20).ok).toBe(false);
+    const big = parseWholeNumber("9".repeat(MAX_FACTOR_DIGITS + 1), 20);
+    expect(big.ok === false && big.explain).toContain("até 20 algarismos");
+  });
+
+  it("respeita o mínimo", () => {
+    expect(parseWholeNumber("1", 20, 2n).ok).toBe(false);
+  });
+});
+
+describe("notação e divisores", () => {
+  it("formata fatores bigint com expoentes", () => {
+    expect(formatFactorization([2n, 2n, 3n])).toBe("2² × 3");
+  });
+
+  it("conta e lista os divisores", () => {
+    const factors = [2n, 2n, 3n];
+    expect(divisorCount(factors)).toBe(6);
+    expect(divisorsFromFactors(factors)).toEqual([1n, 2n, 3n, 4n, 6n, 12n]);
+  });
+});
+
+describe("divisibilityInfo", () => {
+  it("usa a soma dos algarismos também para negativos", () => {
+    expect(divisibilityInfo(-12)).toMatchObject({
+      by2: true,
+      by3: true,
+      by5: false,
+      by6: true,
+      by9: false,
+      by10: false,
+      by12: true,
+    });
+  });
+
+  it("decimais não são divisíveis (1,2 tem algarismos que somam 3)", () => {
+    expect(divisibilityInfo(1.2).by3).toBe(false);
+    expect(divisibilityInfo(7.5).by5).toBe(false);
+    expect(divisibilityInfo(4.5).by9).toBe(false);
+  });
+});
+
+describe("respostas de fatoração", () => {
+  it("normalizeFactorsInput aceita os formatos comuns", () => {
+    for (const text of ["2x2x3", "2 2 3", "2,2,3", "2×2×3", "2^2*3", "2²·3"]) {
+      expect(normalizeFactorsInput(text)).toEqual([2, 2, 3]);
+    }
+  });
+
+  it("termos inválidos e expoentes absurdos viram NaN", () => {
+    expect(normalizeFactorsInput("2 a")).toEqual([2, NaN]);
+    expect(normalizeFactorsInput("2^999")).toEqual([NaN]);
+    expect(normalizeFactorsInput("  ")).toEqual([]);
+  });
+
+  it("multisetEqual ignora a ordem mas não a repetição", () => {
+    expect(multisetEqual([3, 2, 2], [2, 3, 2])).toBe(true);
+    expect(multisetEqual([2, 3], [2, 3, 3])).toBe(false);
+    expect(productOf([])).toBe(1);
+  });
+});
+
+describe("MDC, MMC e crivo", () => {
+  it("euclidSteps termina no MDC", () => {
+    const steps = euclidSteps(84, 36);
+    expect(steps.map((s) => s.remainder)).toEqual([12, 0]);
+    expect(steps[steps.length - 1].divisor).toBe(gcd(84, 36));
+  });
+
+  it("simultaneousFactorization separa os primos comuns", () => {
+    const rows = simultaneousFactorization([12, 18]);
+    expect(rows.map((r) => [r.prime, r.common])).toEqual([
+      [2, true],
+      [2, false],
+      [3, true],
+      [3, false],
+    ]);
+  });
+
+  it("o crivo deixa exatamente os primos", () => {
+    const limit = 100;
+    const crossed = new Set(
+      sieveEvents(limit).flatMap((e) => (e.kind === "cross" ? [e.n] : []))
+    );
+    for (let n = 0; n <= limit; n++) {
+      expect(!crossed.has(n)).toBe(isPrime(n));
+    }
+  });
+});
+
+// ----------------------------------------------
+// Propriedades (fast-check sorteia centenas de casos)
+// ----------------------------------------------
+describe("propriedades", () => {
+  it("o produto dos fatores primos é o número e todos são primos", () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 2, max: 2 ** 40 }), (n) => {
+        const factors = primeFactors(n);
+        expect(productOf(factors)).toBe(n);
+        expect(factors.every(isPrime)).toBe(true);
+        expect(factors).toEqual([...factors].sort((a, b) => a - b));
+      })
+    );
+  });
+
+  it("vale o mesmo com bigint até 20 algarismos", () => {
+    fc.assert(
+      fc.property(fc.bigInt({ min: 2n, max: 10n ** 20n - 1n }), (n) => {
+        const factors = primeFactorsBig(n);
+        expect(product(factors)).toBe(n);
+        expect(factors.every(isPrimeBig)).toBe(true);
+      }),
+      { numRuns: 50 }
+    );
+  });
+
+  it("isPrimeBig concorda com isPrime", () => {
+    fc.assert(
+      fc.property(fc.integer({ min: -10, max: 2 ** 31 }), (n) => {
+        expect(isPrimeBig(BigInt(n))).toBe(isPrime(n));
+      })
+    );
+  });
+
+  it("divisibilityInfo concorda com % (negativos, decimais, extremos)", () => {
+    const numbers = fc.oneof(
+      fc.integer(),
+      fc.integer().map((n) => n / 4),
+      fc.double(),
+      fc.constantFrom(2 ** 70, -(2 ** 60), 0.3, -0)
+    );
+    fc.assert(
+      fc.property(numbers, (n) => {
+        const info = divisibilityInfo(n);
+        for (const [key, value] of Object.entries(info)) {
+          expect(value, `${key} de ${n}`).toBe(n % Number(key.slice(2)) === 0);
+        }
+      })
+    );
+  });
+
+  it("a forma com expoentes volta para os mesmos fatores", () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 2, max: 10 ** 9 }), (n) => {
+        const factors = primeFactors(n);
+        const parsed = normalizeFactorsInput(formatFactorization(factors));
+        expect(multisetEqual(parsed, factors)).toBe(true);
+      })
+    );
+  });
+
+  it("MDC × MMC = |a × b| e o MDC divide os dois", () => {
+    const side = fc.integer({ min: -10000, max: 10000 });
+    fc.assert(
+      fc.property(side, side, (a, b) => {
+        expect(gcd(a, b) * lcm(a, b)).toBe(Math.abs(a * b));
+        if (gcd(a, b) > 0) {
+          expect(a % gcd(a, b) === 0 && b % gcd(a, b) === 0).toBe(true);
+        }
+      })
+    );
+  });
+
+  it("cada passo de Euclides confere dividendo = divisor × quociente + resto", () => {
+    const side = fc.integer({ min: 1, max: 10 ** 6 });
+    fc.assert(
+      fc.property(side, side, (a, b) => {
+        for (const s of euclidSteps(a, b)) {
+          expect(s.divisor * s.quotient + s.remainder).toBe(s.dividend);
+        }
+      })
+    );
+  });
+});
@@ -0,0 +1,425 @@
+// ----------------------------------------------
+// Utilidades de Matemática (number para o dia a dia, bigint para números
+// grandes)
+// ----------------------------------------------
+
+// Até aqui a divisão por tentativas é instantânea (√2³² = 65 536)
+const TRIAL_DIVISION_LIMIT = 2 ** 32;
+
+export const isPrime = (n: number): boolean => {
+  if (!Number.isInteger(n) || n < 2) return false;
+  if (n > TRIAL_DIVISION_LIMIT) return isPrimeBig(BigInt(n));
+  if (n === 2) return true;
+  if (n % 2 === 0) return false;
+  for (let d = 3; d * d <= n; d += 2) {
+    if (n % d === 0) return false;
+  }
+  return true;
+};
+
+export const smallestFactor = (n: number): number | null => {
+  if (n < 2) return null;
+  if (Number.isInteger(n) && n > TRIAL_DIVISION_LIMIT) {
+    const factors = primeFactorsBig(BigInt(n));
+    return factors.length > 1 ? Number(factors[0]) : null;
+  }
+  if (n % 2 === 0) return 2;
+  for (let d = 3; d * d <= n; d += 2) {
+    if (n % d === 0) return d;
+  }
+  return null; // primo
+};
+
+export const primeFactors = (n: number): number[] => {
+  if (Number.isInteger(n) && n > TRIAL_DIVISION_LIMIT) {
+    return primeFactorsBig(BigInt(n)).map(Number);
+  }
+  const factors: number[] = [];
+  let x = n;
+  let d = 2;
+  while (x >= 2 && d * d <= x) {
+    while (x % d === 0) {
+      factors.push(d);
+      x = x / d;
+    }
+    d = d === 2 ? 3 : d + 2; // 2,3,5,7,...
+  }
+  if (x > 1) factors.push(x);
+  return factors;
+};
+
+// ----------------------------------------------
+// Números grandes (bigint): Miller–Rabin e rho de Pollard
+// ----------------------------------------------
+const absDiff = (a: bigint, b: bigint) => (a > b ? a - b : b - a);
+
+const gcdBig = (a: bigint, b: bigint): bigint => {
+  let [x, y] = [a, b];
+  while (y !== 0n) [x, y] = [y, x % y];
+  return x;
+};
+
+export const modPow = (base: bigint, exp: bigint, mod: bigint): bigint => {
+  let result = 1n;
+  let b = base % mod;
+  let e = exp;
+  while (e > 0n) {
+    if (e & 1n) result = (result * b) % mod;
+    e >>= 1n;
+    b = (b * b) % mod;
+  }
+  return result;
+};
+
+// Com estas bases o teste é exato para n < 3,3 × 10²⁴; acima, a chance de
+// erro é desprezível (menor que 4⁻¹²)
+const MILLER_RABIN_BASES = [
+  2n,
+  3n,
+  5n,
+  7n,
+  11n,
+  13n,
+  17n,
+  19n,
+  23n,
+  29n,
+  31n,
+  37n,
+];
+
+export const isPrimeBig = (n: bigint): boolean => {
+  if (n < 2n) return false;
+  for (const p of MILLER_RABIN_BASES) {
+    if (n % p === 0n) return n === p;
+  }
+  // n − 1 = d × 2^s com d ímpar
+  let d = n - 1n;
+  let s = 0;
+  while (d % 2n === 0n) {
+    d /= 2n;
+    s += 1;
+  }
+  return MILLER_RABIN_BASES.every((a) => {
+    let x = modPow(a, d, n);
+    if (x === 1n || x === n - 1n) return true;
+    for (let i = 1; i < s; i++) {
+      x = (x * x) % n;
+      if (x === n - 1n) return true;
+    }
+    return false;
+  });
+};
+
+// Um gcd a cada lote de passos, em vez de um por passo
+const RHO_BATCH = 64;
+
+// Rho de Pollard (variante de Brent): um divisor não trivial de n composto
+export const pollardRho = (n: bigint): bigint => {
+  if (n % 2n === 0n) return 2n;
+  for (let c = 1n; ; c++) {
+    const f = (v: bigint) => (v * v + c) % n;
+    let x = 2n;
+    let y = 2n;
+    let ys = 2n;
+    let q = 1n;
+    let g = 1n;
+    for (let r = 1; g === 1n; r *= 2) {
+      x = y;
+      for (let i = 0; i < r; i++) y = f(y);
+      for (let k = 0; k < r && g === 1n; k += RHO_BATCH) {
+        ys = y;
+        for (let i = 0; i < Math.min(RHO_BATCH, r - k); i++) {
+          y = f(y);
+          q = (q * absDiff(x, y)) % n;
+        }
+        g = gcdBig(q, n);
+      }
+    }
+    // O lote inteiro passou do fator: refaz um passo por vez
+    if (g === n) {
+      do {
+        ys = f(ys);
+        g = gcdBig(absDiff(x, ys), n);
+      } while (g === 1n);
+    }
+    if (g !== n) return g; // senão, tenta outra constante c
+  }
+};
+
+const SMALL_PRIMES = Array.from({ length: 1000 }, (_, i) => i)
+  .filter(isPrime)
+  .map(BigInt);
+
+// Fatores primos em ordem crescente (com repetição)
+export const primeFactorsBig = (n: bigint): bigint[] => {
+  const factors: bigint[] = [];
+  let rest = n;
+  for (const p of SMALL_PRIMES) {
+    if (p * p > rest) break;
+    while (rest % p === 0n) {
+      factors.push(p);
+      rest /= p;
+    }
+  }
+  const pending = rest > 1n ? [rest] : [];
+  while (pending.length > 0) {
+    const m = pending.pop()!;
+    if (isPrimeBig(m)) {
+      factors.push(m);
+    } else {
+      const d = pollardRho(m);
+      pending.push(d, m / d);
+    }
+  }
+  return factors.sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+};
+
+export const powBig = (base: bigint, exp: number): bigint =>
+  base ** BigInt(exp);
+
+// Quantos algarismos tem base^exp (estimativa por log10, sem calcular)
+export const powerDigitCount = (base: number, exp: number) =>
+  Math.abs(base) <= 1 ? 1 : Math.floor(exp * Math.log10(Math.abs(base))) + 1;
+
+// ----------------------------------------------
+// Limites para uso interativo (acima disso a página travaria)
+// ----------------------------------------------
+export const MAX_FACTOR_DIGITS = 20; // rho de Pollard em milissegundos
+export const MAX_POWER_DIGITS = 1000; // potências exatas exibidas por inteiro
+
+export type WholeNumberInput =
+  | { ok: true; value: bigint }
+  | { ok: false; explain: string };
+
+// Aceita separadores de milhar ("1 000", "1.000", "1_000")
+export const parseWholeNumber = (
+  text: string,
+  maxDigits: number,
+  min = 0n
+): WholeNumberInput => {
+  const digits = text.replace(/[\s._]/g, "");
+  if (!/^\d+$/.test(digits)) {
+    return { ok: false, explain: "Digite só algarismos (ex.: 360)." };
+  }
+  const value = BigInt(digits);
+  if (String(value).length > maxDigits) {
+    return {
+      ok: false,
+      explain: `Número grande demais para calcular aqui: use até ${maxDigits} algarismos.`,
+    };
+  }
+  if (value < min) {
+    return { ok: false, explain: `Digite um número a partir de ${min}.` };
+  }
+  return { ok: true, value };
+};
+
+// ----------------------------------------------
+// Notação com expoentes (2² × 3) e divisores
+// ----------------------------------------------
+const SUPERSCRIPT_DIGITS = "⁰¹²³⁴⁵⁶⁷⁸⁹";
+
+export const toSuperscript = (n: number) =>
+  [...String(n)].map((d) => SUPERSCRIPT_DIGITS[Number(d)]).join("");
+
+export const fromSuperscript = (text: string) =>
+  Number([...text].map((c) => SUPERSCRIPT_DIGITS.indexOf(c)).join(""));
+
+// [2, 2, 3] → [[2, 2], [3, 1]] (primo, expoente), em ordem crescente
+export const factorPowers = <T extends number | bigint>(
+  factors: readonly T[]
+): [T, number][] => {
+  const powers = new Map<T, number>();
+  for (const f of [...factors].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0))) {
+    powers.set(f, (powers.get(f) ?? 0) + 1);
+  }
+  return [...powers];
+};
+
+// Forma canônica: 2² × 3
+export const formatFactorization = (factors: readonly (number | bigint)[]) =>
+  factorPowers(factors)
+    .map(([p, e]) => (e === 1 ? `${p}` : `${p}${toSuperscript(e)}`))
+    .join(" × ");
+
+// (e₁+1)(e₂+1)… sem gerar a lista
+export const divisorCount = (factors: readonly (number | bigint)[]) =>
+  factorPowers(factors).reduce((acc, [, e]) => acc * (e + 1), 1);
+
+// Cada divisor escolhe um expoente de 0 a e para cada primo
+export const divisorsFromFactors = (factors: readonly bigint[]) => {
+  let divisors = [1n];
+  for (const [p, e] of factorPowers(factors)) {
+    divisors = divisors.flatMap((d) =>
+      Array.from({ length: e + 1 }, (_, k) => d * p ** BigInt(k))
+    );
+  }
+  return divisors.sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+};
+
+export const divisorCountFormula = (factors: readonly (number | bigint)[]) =>
+  factorPowers(factors)
+    .map(([, e]) => `(${e}+1)`)
+    .join(" × ");
+
+// ----------------------------------------------
+// Divisibilidade
+// ----------------------------------------------
+export const digitSum = (n: number) =>
+  String(Math.abs(n))
+    .split("")
+    .reduce((a, b) => a + Number(b), 0);
+
+// Soma alternada a partir do algarismo das unidades: + − + − ...
+export const alternatingDigitSum = (n: number) =>
+  String(Math.abs(n))
+    .split("")
+    .reverse()
+    .reduce((acc, d, i) => acc + (i % 2 === 0 ? 1 : -1) * Number(d), 0);
+
+// A regra da soma dos algarismos só vale para inteiros exatos: decimais e
+// números enormes ("1e+21") usam o resto direto
+export const divisibilityInfo = (n: number) => {
+  const bySum = (k: number) =>
+    Number.isSafeInteger(n) ? digitSum(n) % k === 0 : n % k === 0;
+  return {
+    by2: n % 2 === 0,
+    by3: bySum(3),
+    by4: n % 4 === 0,
+    by5: n % 5 === 0,
+    by6: n % 6 === 0,
+    by7: n % 7 === 0,
+    by8: n % 8 === 0,
+    by9: bySum(9),
+    by10: n % 10 === 0,
+    by11: n % 11 === 0,
+    by12: n % 12 === 0,
+    by25: n % 25 === 0,
+  };
+};
+
+// ----------------------------------------------
+// Respostas de fatoração digitadas pelo aluno
+// ----------------------------------------------
+// Expoentes maiores que isso não são resposta de fatoração (evita listas enormes)
+export const MAX_FACTOR_EXPONENT = 64;
+
+// Aceita 2x2x3, "2 2 3", 2,2,3, 2×2×3, 2^2*3 e 2²·3.
+// Termos inválidos viram NaN para o corretor apontar o erro.
+export const normalizeFactorsInput = (text: string) => {
+  const cleaned = String(text)
+    .toLowerCase()
+    .replace(/\s*\^\s*/g, "^") // "2 ^ 2" → "2^2"
+    .replace(/[×x*·]/g, " ") // x, ×, *, ponto meio
+    .replace(/[;,]/g, " ") // vírgulas e ;
+    .replace(/\s+/g, " ") // múltiplos espaços
+    .trim();
+  if (!cleaned) return [];
+  return cleaned.split(" ").flatMap((term) => {
+    const m = /^(\d+)(?:\^(\d+)|([⁰¹²³⁴⁵⁶⁷⁸⁹]+))?$/.exec(term);
+    if (!m) return [NaN];
+    const exp = m[2] ? Number(m[2]) : m[3] ? fromSuperscript(m[3]) : 1;
+    if (exp < 1 || exp > MAX_FACTOR_EXPONENT) return [NaN];
+    return Array<number>(exp).fill(Number(m[1]));
+  });
+};
+
+export const multisetEqual = (a: number[], b: number[]) => {
+  if (a.length !== b.length) return false;
+  const aa = [...a].sort((x, y) => x - y);
+  const bb = [...b].sort((x, y) => x - y);
+  return aa.every((v, i) => v === bb[i]);
+};
+
+export const productOf = (arr: number[]) => arr.reduce((acc, v) => acc * v, 1);
+
+// ----------------------------------------------
+// MDC e MMC (algoritmo de Euclides e fatoração simultânea)
+// ----------------------------------------------
+export const gcd = (a: number, b: number): number => {
+  let [x, y] = [Math.abs(a), Math.abs(b)];
+  while (y !== 0) [x, y] = [y, x % y];
+  return x;
+};
+
+export const lcm = (a: number, b: number) =>
+  a === 0 || b === 0 ? 0 : Math.abs((a / gcd(a, b)) * b);
+
+export interface EuclidStep {
+  dividend: number;
+  divisor: number;
+  quotient: number;
+  remainder: number;
+}
+
+// Divide o maior pelo menor e repete com (divisor, resto) até o resto ser 0
+export const euclidSteps = (a: number, b: number): EuclidStep[] => {
+  const steps: EuclidStep[] = [];
+  let [x, y] = [Math.max(a, b), Math.min(a, b)];
+  while (y > 0) {
+    const remainder = x % y;
+    steps.push({
+      dividend: x,
+      divisor: y,
+      quotient: Math.floor(x / y),
+      remainder,
+    });
+    [x, y] = [y, remainder];
+  }
+  return steps;
+};
+
+export interface SimultaneousRow {
+  values: number[]; // antes de dividir por `prime`
+  prime: number;
+  common: boolean; // divide todos → entra no MDC
+}
+
+// Divide todos pelo menor primo que divide algum deles, até sobrar só 1
+export const simultaneousFactorization = (
+  numbers: number[]
+): SimultaneousRow[] => {
+  const rows: SimultaneousRow[] = [];
+  let values = numbers.map((v) => Math.max(1, v));
+  while (values.some((v) => v > 1)) {
+    const prime = Math.min(
+      ...values.filter((v) => v > 1).map((v) => smallestFactor(v) ?? v)
+    );
+    rows.push({
+      values,
+      prime,
+      common: values.every((v) => v % prime === 0),
+    });
+    values = values.map((v) => (v % prime === 0 ? v / prime : v));
+  }
+  return rows;
+};
+
+// ----------------------------------------------
+// Crivo de Eratóstenes (um evento por passo da animação)
+// ----------------------------------------------
+export type SieveEvent =
+  | { kind: "prime"; n: number } // sobreviveu: é primo, riscar seus múltiplos
+  | { kind: "cross"; n: number; by: number | null } // null: 0 e 1
+  | { kind: "rest" }; // passou de √limite: quem sobrou é primo
+
+// Cada múltiplo é riscado uma vez só, a partir de p² (os menores já caíram)
+export const sieveEvents = (limit: number): SieveEvent[] => {
+  const events: SieveEvent[] = [
+    { kind: "cross", n: 0, by: null },
+    { kind: "cross", n: 1, by: null },
+  ];
+  const crossed = new Set<number>();
+  for (let p = 2; p * p <= limit; p++) {
+    if (crossed.has(p)) continue;
+    events.push({ kind: "prime", n: p });
+    for (let m = p * p; m <= limit; m += p) {
+      if (crossed.has(m)) continue;
+      crossed.add(m);
+      events.push({ kind: "cross", n: m, by: p });
+    }
+  }
+  events.push({ kind: "rest" });
+  return events;
+};
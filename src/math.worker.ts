@@ -0,0 +1,6 @@
+import { runMathJob, type MathRequest } from "./mathJobs";
+
+// Worker de matemática: fatorações grandes sem travar a página
+self.onmessage = (event: MessageEvent<MathRequest>) => {
+  self.postMessage(runMathJob(event.data));
+};
@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import {
+  createMathClient,
+  mathJobKey,
+  runMathJob,
+  type MathRequest,
+  type MathResponse,
+  type MathWorkerLike,
+} from "./mathJobs";
+
+// Worker de mentira: guarda os pedidos e responde quando o teste mandar
+const fakeWorkers = () => {
+  const spawned: (MathWorkerLike & {
+    requests: MathRequest[];
+    terminated: boolean;
+    reply: (response: MathResponse) => void;
+  })[] = [];
+  const spawn = () => {
+    const w = {
+      requests: [] as MathRequest[],
+      terminated: false,
+      onmessage: null,
+      onerror: null,
+      postMessage(request: MathRequest) {
+        w.requests.push(request);
+      },
+      terminate() {
+        w.terminated = true;
+      },
+      reply(response: MathResponse) {
+        w.onmessage?.({ data: response } as MessageEvent<MathResponse>);
+      },
+    };
+    spawned.push(w);
+    return w;
+  };
+  return { spawned, spawn };
+};
+
+describe("runMathJob", () => {
+  it("fatora e devolve o mesmo id", () => {
+    expect(runMathJob({ id: 7, job: { kind: "factor", n: 84n } })).toEqual({
+      id: 7,
+      ok: true,
+      result: [2n, 2n, 3n, 7n],
+    });
+  });
+
+  it("mathJobKey distingue números grandes", () => {
+    expect(mathJobKey({ kind: "factor", n: 2n ** 64n })).not.toBe(
+      mathJobKey({ kind: "factor", n: 2n ** 64n + 1n })
+    );
+  });
+});
+
+describe("createMathClient", () => {
+  it("entrega a resposta do pedido atual", async () => {
+    const { spawned, spawn } = fakeWorkers();
+    const client = createMathClient(spawn);
+    const outcome = client.run({ kind: "factor", n: 84n });
+    const [w] = spawned;
+    w.reply(runMathJob(w.requests[0]));
+    await expect(outcome).resolves.toEqual({
+      ok: true,
+      result: [2n, 2n, 3n, 7n],
+    });
+  });
+
+  it("um pedido novo cancela o anterior e troca de worker", async () => {
+    const { spawned, spawn } = fakeWorkers();
+    const client = createMathClient(spawn);
+    const first = client.run({ kind: "factor", n: 10n });
+    const second = client.run({ kind: "factor", n: 12n });
+    await expect(first).resolves.toMatchObject({ ok: false, cancelled: true });
+    expect(spawned).toHaveLength(2);
+    expect(spawned[0].terminated).toBe(true);
+    spawned[1].reply(runMathJob(spawned[1].requests[0]));
+    await expect(second).resolves.toEqual({ ok: true, result: [2n, 2n, 3n] });
+  });
+
+  it("ignora respostas de pedidos velhos", async () => {
+    const { spawned, spawn } = fakeWorkers();
+    const client = createMathClient(spawn);
+    const outcome = client.run({ kind: "factor", n: 6n });
+    spawned[0].reply({ id: 999, ok: true, result: [5n] });
+    spawned[0].reply(runMathJob(spawned[0].requests[0]));
+    await expect(outcome).resolves.toEqual({ ok: true, result: [2n, 3n] });
+  });
+
+  it("reaproveita o worker quando não há cálculo pendente", async () => {
+    const { spawned, spawn } = fakeWorkers();
+    const client = createMathClient(spawn);
+    for (const n of [4n, 9n]) {
+      const outcome = client.run({ kind: "factor", n });
+      const w = spawned[0];
+      w.reply(runMathJob(w.requests[w.requests.length - 1]));
+      await outcome;
+    }
+    expect(spawned).toHaveLength(1);
+    client.dispose();
+    expect(spawned[0].terminated).toBe(true);
+  });
+});
@@ -0,0 +1,125 @@
+import { primeFactorsBig } from "./math";
+
+// ----------------------------------------------
+// Protocolo do worker de matemática (pedido → resposta, com id)
+// ----------------------------------------------
+export type MathJob = { kind: "factor"; n: bigint };
+
+// O que cada tipo de cálculo devolve
+export interface MathResults {
+  factor: bigint[];
+}
+
+export type MathJobResult<J extends MathJob> = MathResults[J["kind"]];
+
+export interface MathRequest {
+  id: number;
+  job: MathJob;
+}
+
+export type MathResponse =
+  | { id: number; ok: true; result: MathResults[MathJob["kind"]] }
+  | { id: number; ok: false; error: string };
+
+// Roda dentro do worker (e nos testes, direto)
+export const runMathJob = ({ id, job }: MathRequest): MathResponse => {
+  try {
+    switch (job.kind) {
+      case "factor":
+        return { id, ok: true, result: primeFactorsBig(job.n) };
+    }
+  } catch (e) {
+    return { id, ok: false, error: e instanceof Error ? e.message : String(e) };
+  }
+};
+
+// Igualdade de pedidos (bigint não passa pelo JSON.stringify)
+export const mathJobKey = (job: MathJob) => `${job.kind}:${String(job.n)}`;
+
+// ----------------------------------------------
+// Cliente: um cálculo por vez, o mais novo cancela o anterior
+// ----------------------------------------------
+export interface MathWorkerLike {
+  postMessage(request: MathRequest): void;
+  terminate(): void;
+  onmessage: ((event: MessageEvent<MathResponse>) => void) | null;
+  onerror: ((event: ErrorEvent) => void) | null;
+}
+
+export type MathOutcome<R> =
+  | { ok: true; result: R }
+  | { ok: false; cancelled: boolean; error: string };
+
+export const createMathClient = (spawn: () => MathWorkerLike) => {
+  let worker: MathWorkerLike | null = null;
+  let nextId = 1;
+  let pending: {
+    id: number;
+    settle: (outcome: MathOutcome<unknown>) => void;
+  } | null = null;
+
+  const finish = (outcome: MathOutcome<unknown>) => {
+    const p = pending;
+    pending = null;
+    p?.settle(outcome);
+  };
+
+  const connect = () => {
+    const w = spawn();
+    w.onmessage = ({ data }) => {
+      if (!pending || data.id !== pending.id) return; // resposta velha
+      finish(
+        data.ok === false
+          ? { ok: false, cancelled: false, error: data.error }
+          : { ok: true, result: data.result }
+      );
+    };
+    w.onerror = (event) => {
+      finish({
+        ok: false,
+        cancelled: false,
+        error: event.message || "O cálculo falhou.",
+      });
+      w.terminate();
+      if (worker === w) worker = null;
+    };
+    return w;
+  };
+
+  // O rho de Pollard não para no meio: cancelar é encerrar o worker (um novo
+  // nasce no próximo pedido)
+  const cancel = () => {
+    if (!pending) return;
+    finish({ ok: false, cancelled: true, error: "Cálculo cancelado." });
+    worker?.terminate();
+    worker = null;
+  };
+
+  const run = <J extends MathJob>(
+    job: J
+  ): Promise<MathOutcome<MathJobResult<J>>> => {
+    cancel();
+    worker ??= connect();
+    const id = nextId++;
+    return new Promise((resolve) => {
+      pending = {
+        id,
+        settle: resolve as (outcome: MathOutcome<unknown>) => void,
+      };
+      worker.postMessage({ id, job });
+    });
+  };
+
+  return {
+    run,
+    cancel,
+    // Ao desmontar: cancela e libera o worker
+    dispose: () => {
+      cancel();
+      worker?.terminate();
+      worker = null;
+    },
+  };
+};
+
+export type MathClient = ReturnType<typeof createMathClient>;
@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import {
+  PRIME_HUNT_POINTS,
+  isBetterRun,
+  primeHuntAccuracy,
+  primeHuntScore,
+  type PrimeHuntRun,
+} from "./primeHunt";
+
+describe("primeHuntScore", () => {
+  it("desconta os erros dos acertos", () => {
+    const slow = 100 * PRIME_HUNT_POINTS.parMsPerNumber;
+    expect(primeHuntScore(25, 4, slow, 100)).toEqual({
+      base: 25 * PRIME_HUNT_POINTS.prime,
+      penalty: 4 * PRIME_HUNT_POINTS.mistake,
+      time: 0,
+      total: 25 * PRIME_HUNT_POINTS.prime - 4 * PRIME_HUNT_POINTS.mistake,
+    });
+  });
+
+  it("dá um ponto por segundo abaixo do tempo de referência", () => {
+    expect(primeHuntScore(25, 0, 60_000, 100).time).toBe(40);
+    expect(primeHuntScore(25, 0, 60_000, 200).time).toBe(140);
+  });
+
+  it("nunca fica negativo", () => {
+    expect(primeHuntScore(1, 50, 1e9, 100).total).toBe(0);
+  });
+});
+
+describe("primeHuntAccuracy", () => {
+  it("conta os erros como tentativas", () => {
+    expect(primeHuntAccuracy(3, 1)).toBe(0.75);
+    expect(primeHuntAccuracy(0, 0)).toBeNull();
+  });
+});
+
+describe("isBetterRun", () => {
+  const run = (score: number, ms: number): PrimeHuntRun => ({
+    limit: 100,
+    found: 25,
+    mistakes: 0,
+    ms,
+    score,
+    at: "2025-09-20T12:00:00.000Z",
+  });
+
+  it("a primeira partida é sempre a melhor", () => {
+    expect(isBetterRun(run(10, 1000))).toBe(true);
+  });
+
+  it("compara pontos e, no empate, o tempo", () => {
+    expect(isBetterRun(run(20, 9000), run(10, 1000))).toBe(true);
+    expect(isBetterRun(run(10, 900), run(10, 1000))).toBe(true);
+    expect(isBetterRun(run(10, 1000), run(10, 1000))).toBe(false);
+  });
+});
@@ -0,0 +1,55 @@
+// ----------------------------------------------
+// Jogo dos Primos: pontuação com penalidade e melhor partida
+// ----------------------------------------------
+export const PRIME_HUNT_POINTS = {
+  prime: 10, // cada primo encontrado
+  mistake: 5, // descontado por clique errado
+  parMsPerNumber: 1000, // tempo de referência: 1 s por número da grade
+} as const;
+
+export interface PrimeHuntScore {
+  base: number;
+  penalty: number;
+  time: number; // bônus: 1 ponto por segundo abaixo do tempo de referência
+  total: number;
+}
+
+export const primeHuntScore = (
+  found: number,
+  mistakes: number,
+  ms: number,
+  limit: number
+): PrimeHuntScore => {
+  const p = PRIME_HUNT_POINTS;
+  const base = found * p.prime;
+  const penalty = mistakes * p.mistake;
+  const time = Math.max(
+    0,
+    Math.round((limit * p.parMsPerNumber - Math.max(0, ms)) / 1000)
+  );
+  return {
+    base,
+    penalty,
+    time,
+    total: Math.max(0, base - penalty + time),
+  };
+};
+
+// Acertos sobre todos os cliques (null antes do primeiro clique)
+export const primeHuntAccuracy = (found: number, mistakes: number) =>
+  found + mistakes === 0 ? null : found / (found + mistakes);
+
+export interface PrimeHuntRun {
+  limit: number; // faixa 0–limit
+  found: number;
+  mistakes: number;
+  ms: number; // do primeiro clique ao último primo
+  score: number;
+  at: string; // ISO do fim da partida
+}
+
+// Mais pontos vence; no empate, quem terminou mais rápido
+export const isBetterRun = (run: PrimeHuntRun, best?: PrimeHuntRun) =>
+  !best ||
+  run.score > best.score ||
+  (run.score === best.score && run.ms < best.ms);
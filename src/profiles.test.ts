@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_PROFILE_ID,
+  PROFILES_KEY,
+  addProfile,
+  createDefaultProfiles,
+  loadProfiles,
+  removeProfile,
+  statsKeyFor,
+  switchProfile,
+  updateProfile,
+} from "./profiles";
+import { STORAGE_KEY } from "./stats";
+
+const now = "2025-09-20T12:00:00.000Z";
+
+const storageWith = (value: string | null) => ({
+  getItem: () => value,
+  setItem: () => {},
+});
+
+describe("statsKeyFor", () => {
+  it("mantém o perfil original na chave de antes dos perfis", () => {
+    expect(statsKeyFor(DEFAULT_PROFILE_ID)).toBe(STORAGE_KEY);
+  });
+
+  it("separa os demais perfis por id", () => {
+    expect(statsKeyFor("abc")).toBe(`${STORAGE_KEY}:abc`);
+  });
+});
+
+describe("loadProfiles", () => {
+  it("cria o perfil original quando não há nada salvo", () => {
+    const state = loadProfiles(storageWith(null));
+    expect(state.activeId).toBe(DEFAULT_PROFILE_ID);
+    expect(state.profiles).toHaveLength(1);
+  });
+
+  it("recupera de JSON corrompido", () => {
+    expect(loadProfiles(storageWith("{")).profiles).toHaveLength(1);
+  });
+
+  it("ignora perfis malformados e corrige o perfil ativo", () => {
+    const state = loadProfiles(
+      storageWith(
+        JSON.stringify({
+          activeId: "sumiu",
+          profiles: [{ id: "a", name: "Ana", createdAt: now }, { id: 3 }],
+        })
+      )
+    );
+    expect(state.profiles.map((p) => p.id)).toEqual(["a"]);
+    expect(state.activeId).toBe("a");
+  });
+
+  it("usa a chave de perfis", () => {
+    const keys: string[] = [];
+    loadProfiles({
+      getItem: (key) => (keys.push(key), null),
+      setItem: () => {},
+    });
+    expect(keys).toEqual([PROFILES_KEY]);
+  });
+});
+
+describe("gerenciamento de perfis", () => {
+  const base = createDefaultProfiles(now);
+
+  it("adiciona e ativa o novo perfil", () => {
+    const state = addProfile(base, "  Bia  ", "🦊", "b", now);
+    expect(state.activeId).toBe("b");
+    expect(state.profiles[1]).toEqual({
+      id: "b",
+      name: "Bia",
+      avatar: "🦊",
+      createdAt: now,
+    });
+  });
+
+  it("dá um nome padrão quando o nome está vazio", () => {
+    const state = addProfile(base, "   ", undefined, "b", now);
+    expect(state.profiles[1].name).toBe("Estudante 2");
+  });
+
+  it("renomeia e remove o avatar", () => {
+    const withBia = addProfile(base, "Bia", "🦊", "b", now);
+    const state = updateProfile(withBia, "b", "Beatriz");
+    expect(state.profiles[1]).toEqual({
+      id: "b",
+      name: "Beatriz",
+      createdAt: now,
+    });
+  });
+
+  it("troca apenas para perfis existentes", () => {
+    const withBia = addProfile(base, "Bia", undefined, "b", now);
+    expect(switchProfile(withBia, DEFAULT_PROFILE_ID).activeId).toBe(
+      DEFAULT_PROFILE_ID
+    );
+    expect(switchProfile(withBia, "x")).toBe(withBia);
+  });
+
+  it("apagar o perfil ativo ativa outro, mas nunca apaga o último", () => {
+    const withBia = addProfile(base, "Bia", undefined, "b", now);
+    const state = removeProfile(withBia, "b");
+    expect(state.activeId).toBe(DEFAULT_PROFILE_ID);
+    expect(removeProfile(state, DEFAULT_PROFILE_ID)).toBe(state);
+  });
+});
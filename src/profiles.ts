@@ -0,0 +1,129 @@
+import { STORAGE_KEY, type KeyValueStorage } from "./stats";
+
+// ----------------------------------------------
+// Perfis de estudante (vários alunos no mesmo aparelho)
+// ----------------------------------------------
+export interface Profile {
+  id: string;
+  name: string;
+  avatar?: string; // emoji opcional
+  createdAt: string; // ISO
+}
+
+export interface ProfilesState {
+  activeId: string;
+  profiles: Profile[];
+}
+
+export const PROFILES_KEY = "mathTutorProfiles";
+export const DEFAULT_PROFILE_ID = "principal";
+export const AVATARS = ["🦊", "🐼", "🐸", "🦉", "🐯", "🐙", "🚀", "⭐"];
+const MAX_NAME_LENGTH = 30;
+
+// O perfil original continua lendo a chave de antes dos perfis
+export const statsKeyFor = (profileId: string) =>
+  profileId === DEFAULT_PROFILE_ID
+    ? STORAGE_KEY
+    : `${STORAGE_KEY}:${profileId}`;
+
+export const createDefaultProfiles = (
+  now = new Date().toISOString()
+): ProfilesState => ({
+  activeId: DEFAULT_PROFILE_ID,
+  profiles: [{ id: DEFAULT_PROFILE_ID, name: "Estudante", createdAt: now }],
+});
+
+const newProfileId = () =>
+  Date.now().toString(36) + Math.random().toString(36).slice(2, 6);
+
+const cleanName = (name: string, fallback: string) =>
+  name.trim().slice(0, MAX_NAME_LENGTH) || fallback;
+
+const isProfile = (value: unknown): value is Profile => {
+  if (typeof value !== "object" || value === null) return false;
+  const p = value as Record<string, unknown>;
+  return (
+    typeof p.id === "string" &&
+    typeof p.name === "string" &&
+    typeof p.createdAt === "string" &&
+    (p.avatar === undefined || typeof p.avatar === "string")
+  );
+};
+
+export const loadProfiles = (
+  storage: KeyValueStorage = localStorage
+): ProfilesState => {
+  try {
+    const parsed = JSON.parse(storage.getItem(PROFILES_KEY) ?? "null");
+    const profiles: Profile[] = Array.isArray(parsed?.profiles)
+      ? parsed.profiles.filter(isProfile)
+      : [];
+    if (profiles.length === 0) return createDefaultProfiles();
+    const activeId = profiles.some((p) => p.id === parsed.activeId)
+      ? parsed.activeId
+      : profiles[0].id;
+    return { activeId, profiles };
+  } catch {
+    return createDefaultProfiles();
+  }
+};
+
+export const saveProfiles = (
+  state: ProfilesState,
+  storage: KeyValueStorage = localStorage
+): void => {
+  storage.setItem(PROFILES_KEY, JSON.stringify(state));
+};
+
+export const activeProfile = (state: ProfilesState): Profile =>
+  state.profiles.find((p) => p.id === state.activeId) ?? state.profiles[0];
+
+// O perfil novo já fica ativo
+export const addProfile = (
+  state: ProfilesState,
+  name: string,
+  avatar?: string,
+  id = newProfileId(),
+  now = new Date().toISOString()
+): ProfilesState => {
+  const profile: Profile = {
+    id,
+    name: cleanName(name, `Estudante ${state.profiles.length + 1}`),
+    createdAt: now,
+  };
+  if (avatar) profile.avatar = avatar;
+  return { activeId: id, profiles: [...state.profiles, profile] };
+};
+
+export const updateProfile = (
+  state: ProfilesState,
+  id: string,
+  name: string,
+  avatar?: string
+): ProfilesState => ({
+  ...state,
+  profiles: state.profiles.map((p) => {
+    if (p.id !== id) return p;
+    const updated: Profile = { ...p, name: cleanName(name, p.name) };
+    if (avatar) updated.avatar = avatar;
+    else delete updated.avatar;
+    return updated;
+  }),
+});
+
+export const switchProfile = (
+  state: ProfilesState,
+  id: string
+): ProfilesState =>
+  state.profiles.some((p) => p.id === id) ? { ...state, activeId: id } : state;
+
+// Sempre sobra pelo menos um perfil; apagar o ativo ativa o primeiro restante
+export const removeProfile = (
+  state: ProfilesState,
+  id: string
+): ProfilesState => {
+  const profiles = state.profiles.filter((p) => p.id !== id);
+  if (profiles.length === 0) return state;
+  const activeId = state.activeId === id ? profiles[0].id : state.activeId;
+  return { activeId, profiles };
+};
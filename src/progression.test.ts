@@ -0,0 +1,159 @@
+import { describe, expect, it } from "vitest";
+import {
+  DAILY_GOALS,
+  MAX_FREEZES,
+  advanceStreak,
+  createStreak,
+  dailyGoalsDone,
+  daysBetween,
+  levelCost,
+  levelInfo,
+  streakView,
+  type StreakState,
+} from "./progression";
+import { createDefaultStats, type AnswerEvent } from "./stats";
+
+describe("levelInfo", () => {
+  it("começa no nível 1", () => {
+    expect(levelInfo(0)).toEqual({
+      level: 1,
+      xpInLevel: 0,
+      xpForNext: levelCost(1),
+      progress: 0,
+    });
+  });
+
+  it("sobe de nível ao completar o custo", () => {
+    const xp = levelCost(1) + levelCost(2) + 10;
+    expect(levelInfo(xp)).toMatchObject({ level: 3, xpInLevel: 10 });
+  });
+
+  it("cada nível custa mais que o anterior", () => {
+    for (let n = 1; n < 20; n++) {
+      expect(levelCost(n + 1)).toBeGreaterThan(levelCost(n));
+    }
+  });
+});
+
+describe("daysBetween", () => {
+  it("conta dias de calendário, inclusive na virada do mês", () => {
+    expect(daysBetween("2025-09-30", "2025-10-01")).toBe(1);
+    expect(daysBetween("2025-09-20", "2025-09-20")).toBe(0);
+  });
+});
+
+describe("advanceStreak", () => {
+  const streak = (overrides: Partial<StreakState>): StreakState => ({
+    ...createStreak(),
+    ...overrides,
+  });
+
+  it("começa em 1 no primeiro dia", () => {
+    expect(advanceStreak(createStreak(), "2025-09-20")).toMatchObject({
+      current: 1,
+      best: 1,
+      lastDay: "2025-09-20",
+    });
+  });
+
+  it("não conta duas vezes o mesmo dia", () => {
+    const s = streak({ current: 3, best: 3, lastDay: "2025-09-20" });
+    expect(advanceStreak(s, "2025-09-20")).toBe(s);
+  });
+
+  it("dia seguinte continua a sequência", () => {
+    const s = streak({ current: 3, best: 5, lastDay: "2025-09-20" });
+    expect(advanceStreak(s, "2025-09-21")).toMatchObject({
+      current: 4,
+      best: 5,
+    });
+  });
+
+  it("usa proteções para cobrir os dias perdidos", () => {
+    const s = streak({ current: 3, lastDay: "2025-09-20", freezes: 2 });
+    expect(advanceStreak(s, "2025-09-23")).toMatchObject({
+      current: 4,
+      freezes: 0,
+    });
+  });
+
+  it("zera quando as proteções não bastam", () => {
+    const s = streak({
+      current: 3,
+      best: 3,
+      lastDay: "2025-09-20",
+      freezes: 1,
+    });
+    expect(advanceStreak(s, "2025-09-23")).toMatchObject({
+      current: 1,
+      best: 3,
+      freezes: 1,
+    });
+  });
+
+  it("ganha uma proteção a cada 7 dias, até o limite", () => {
+    const s = streak({ current: 6, lastDay: "2025-09-20", freezes: 0 });
+    expect(advanceStreak(s, "2025-09-21").freezes).toBe(1);
+    const full = streak({
+      current: 13,
+      lastDay: "2025-09-20",
+      freezes: MAX_FREEZES,
+    });
+    expect(advanceStreak(full, "2025-09-21").freezes).toBe(MAX_FREEZES);
+  });
+});
+
+describe("streakView", () => {
+  const s: StreakState = {
+    current: 5,
+    best: 5,
+    lastDay: "2025-09-20",
+    freezes: 1,
+  };
+
+  it("mostra a sequência de quem praticou hoje", () => {
+    expect(streakView(s, "2025-09-20")).toMatchObject({
+      current: 5,
+      practicedToday: true,
+    });
+  });
+
+  it("avisa as proteções que serão usadas", () => {
+    expect(streakView(s, "2025-09-22")).toMatchObject({
+      current: 5,
+      freezesAtRisk: 1,
+    });
+  });
+
+  it("mostra zero quando a sequência já quebrou", () => {
+    expect(streakView(s, "2025-09-25").current).toBe(0);
+  });
+});
+
+describe("dailyGoalsDone", () => {
+  const day = "2025-09-20";
+  const event = (correct: boolean): AnswerEvent => ({
+    at: new Date(2025, 8, 20, 12).toISOString(),
+    exercise: {
+      type: "primos",
+      n: 7,
+      prompt: "7 é primo? (S/N)",
+      explain: "7 é primo.",
+    },
+    answer: "",
+    correct,
+    ms: null,
+  });
+  const target = (id: string) => DAILY_GOALS.find((g) => g.id === id)!.target;
+
+  it("exige todas as metas", () => {
+    const history = Array.from({ length: target("respostas") }, () =>
+      event(true)
+    );
+    const stats = { ...createDefaultStats(), history };
+    expect(dailyGoalsDone(stats, day)).toBe(false);
+    stats.xpByDay = { [day]: target("xp") };
+    expect(dailyGoalsDone(stats, day)).toBe(true);
+    expect(dailyGoalsDone(stats, "2025-09-21")).toBe(false);
+  });
+});
@@ -0,0 +1,178 @@
+import type { Stats } from "./stats";
+
+// ----------------------------------------------
+// Tabela de recompensas (único lugar com valores de XP)
+// ----------------------------------------------
+export const REWARDS = {
+  primeClick: 2, // Jogo dos Primos: cada primo, até completar a faixa
+  primeHuntComplete: 50, // Jogo dos Primos: faixa completa pela 1ª vez
+  factoringFinished: 10, // Fatoração animada até o fim
+  factoringInteractive: 15, // Fatoração montada pelo aluno (escada ou árvore)
+  correctAnswer: 5, // Jogo 5/5: cada acerto
+  fivePerCorrect: 3, // Jogo 5/5: fim da série, por acerto
+  reviewCorrect: 5, // Revisão: cada acerto
+  challengeCorrect: 3, // Desafio cronometrado: cada acerto
+  divisionCorrect: 4, // Divisão: quociente e resto certos na prática
+  dailyGoals: 20, // todas as metas do dia cumpridas
+} as const;
+
+// ----------------------------------------------
+// Níveis: custo do nível n para n + 1 cresce como n^1,5
+// ----------------------------------------------
+export const levelCost = (level: number) => Math.round(50 * level ** 1.5);
+
+export interface LevelInfo {
+  level: number; // começa em 1
+  xpInLevel: number; // XP desde o início do nível atual
+  xpForNext: number; // custo total do nível atual
+  progress: number; // 0–1
+}
+
+export const levelInfo = (xp: number): LevelInfo => {
+  let level = 1;
+  let rest = Math.max(0, xp);
+  while (rest >= levelCost(level)) {
+    rest -= levelCost(level);
+    level += 1;
+  }
+  const xpForNext = levelCost(level);
+  return { level, xpInLevel: rest, xpForNext, progress: rest / xpForNext };
+};
+
+// ----------------------------------------------
+// Dias (chaves AAAA-MM-DD no fuso do aparelho)
+// ----------------------------------------------
+const dayNumber = (day: string) => {
+  const [y, m, d] = day.split("-").map(Number);
+  return Date.UTC(y, m - 1, d) / (24 * 60 * 60 * 1000);
+};
+
+export const daysBetween = (from: string, to: string) =>
+  dayNumber(to) - dayNumber(from);
+
+// ----------------------------------------------
+// Metas diárias (cumprir todas dá REWARDS.dailyGoals uma vez por dia)
+// ----------------------------------------------
+export interface DailyGoal {
+  id: string;
+  title: string;
+  target: number;
+  progress: (stats: Stats, day: string) => number;
+}
+
+// Eventos guardam ISO (UTC); a meta conta no dia local do aluno
+const sameDay = (iso: string, day: string) => {
+  const d = new Date(iso);
+  return (
+    d.getFullYear() === Number(day.slice(0, 4)) &&
+    d.getMonth() + 1 === Number(day.slice(5, 7)) &&
+    d.getDate() === Number(day.slice(8, 10))
+  );
+};
+
+const answersOn = (stats: Stats, day: string) =>
+  stats.history.filter((e) => sameDay(e.at, day));
+
+export const DAILY_GOALS: DailyGoal[] = [
+  {
+    id: "respostas",
+    title: "Responder 10 questões",
+    target: 10,
+    progress: (s, day) => answersOn(s, day).length,
+  },
+  {
+    id: "acertos",
+    title: "Acertar 6 questões",
+    target: 6,
+    progress: (s, day) => answersOn(s, day).filter((e) => e.correct).length,
+  },
+  {
+    id: "xp",
+    title: "Ganhar 40 XP",
+    target: 40,
+    progress: (s, day) => s.xpByDay[day] ?? 0,
+  },
+];
+
+export const dailyGoalsDone = (stats: Stats, day: string) =>
+  DAILY_GOALS.every((g) => g.progress(stats, day) >= g.target);
+
+// ----------------------------------------------
+// Sequência de dias com prática (com dias protegidos)
+// ----------------------------------------------
+export interface StreakState {
+  current: number;
+  best: number;
+  lastDay: string | null; // último dia com resposta
+  freezes: number; // dias protegidos disponíveis
+}
+
+// A cada 7 dias seguidos ganha 1 proteção, até 2 guardadas
+export const FREEZE_EVERY_DAYS = 7;
+export const MAX_FREEZES = 2;
+
+export const createStreak = (): StreakState => ({
+  current: 0,
+  best: 0,
+  lastDay: null,
+  freezes: 0,
+});
+
+// Resposta em `day`: continua, usa proteções para os dias perdidos ou zera
+export const advanceStreak = (
+  streak: StreakState,
+  day: string
+): StreakState => {
+  if (streak.lastDay === day) return streak;
+  const gap = streak.lastDay ? daysBetween(streak.lastDay, day) : Infinity;
+  if (gap < 0) return streak; // relógio voltou no tempo: ignora
+  let { current, freezes } = streak;
+  const missed = gap - 1;
+  if (missed === 0) {
+    current += 1;
+  } else if (missed <= freezes) {
+    freezes -= missed;
+    current += 1;
+  } else {
+    current = 1;
+  }
+  if (current % FREEZE_EVERY_DAYS === 0) {
+    freezes = Math.min(MAX_FREEZES, freezes + 1);
+  }
+  return {
+    current,
+    best: Math.max(streak.best, current),
+    lastDay: day,
+    freezes,
+  };
+};
+
+export interface StreakView {
+  current: number; // 0 se a sequência já quebrou
+  practicedToday: boolean;
+  freezes: number;
+  freezesAtRisk: number; // proteções que serão gastas se praticar hoje
+}
+
+// Como a sequência está hoje (sem alterar nada)
+export const streakView = (streak: StreakState, today: string): StreakView => {
+  if (!streak.lastDay) {
+    return { current: 0, practicedToday: false, freezes: 0, freezesAtRisk: 0 };
+  }
+  const missed = daysBetween(streak.lastDay, today) - 1;
+  if (missed < 0) {
+    return {
+      current: streak.current,
+      practicedToday: true,
+      freezes: streak.freezes,
+      freezesAtRisk: 0,
+    };
+  }
+  const alive = missed <= streak.freezes;
+  return {
+    current: alive ? streak.current : 0,
+    practicedToday: false,
+    freezes: streak.freezes,
+    freezesAtRisk: alive ? missed : 0,
+  };
+};
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { createRng, hashSeed, pick, randInt, randomSeed } from "./random";
+
+const take = (seed: string, count: number) => {
+  const rng = createRng(seed);
+  return Array.from({ length: count }, () => rng());
+};
+
+describe("hashSeed", () => {
+  it("segue o FNV-1a de 32 bits", () => {
+    expect(hashSeed("")).toBe(0x811c9dc5);
+    expect(hashSeed("a")).toBe(0xe40c292c);
+  });
+});
+
+describe("createRng", () => {
+  it("a mesma semente repete a sequência", () => {
+    expect(take("abc123", 20)).toEqual(take("abc123", 20));
+  });
+
+  it("sementes diferentes dão sequências diferentes", () => {
+    expect(take("abc123", 5)).not.toEqual(take("abc124", 5));
+  });
+
+  it("fica em [0, 1)", () => {
+    for (const x of take("limites", 1000)) {
+      expect(x).toBeGreaterThanOrEqual(0);
+      expect(x).toBeLessThan(1);
+    }
+  });
+});
+
+describe("randInt e pick", () => {
+  it("randInt inclui os dois extremos", () => {
+    const rng = createRng("dado");
+    const seen = new Set(Array.from({ length: 200 }, () => randInt(rng, 1, 6)));
+    expect([...seen].sort()).toEqual([1, 2, 3, 4, 5, 6]);
+  });
+
+  it("pick só devolve itens da lista", () => {
+    const rng = createRng("lista");
+    for (let i = 0; i < 50; i++) {
+      expect(["a", "b", "c"]).toContain(pick(rng, ["a", "b", "c"]));
+    }
+  });
+
+  it("randomSeed tem 6 caracteres em base 36", () => {
+    expect(randomSeed()).toMatch(/^[0-9a-z]{6}$/);
+  });
+});
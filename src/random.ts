@@ -0,0 +1,37 @@
+// ----------------------------------------------
+// Aleatoriedade reprodutível (semente → mesma sequência)
+// ----------------------------------------------
+export type Rng = () => number;
+
+// FNV-1a: transforma a semente (texto) em inteiro de 32 bits
+export const hashSeed = (seed: string): number => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    h ^= seed.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+// mulberry32: gerador pequeno e rápido, suficiente para exercícios
+export const createRng = (seed: string): Rng => {
+  let a = hashSeed(seed);
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export const randomSeed = () =>
+  Math.floor(Math.random() * 36 ** 6)
+    .toString(36)
+    .padStart(6, "0");
+
+export const randInt = (rng: Rng, min: number, max: number) =>
+  min + Math.floor(rng() * (max - min + 1));
+
+export const pick = <T>(rng: Rng, items: readonly T[]): T =>
+  items[Math.floor(rng() * items.length)];
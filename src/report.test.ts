@@ -0,0 +1,116 @@
+import { describe, expect, it } from "vitest";
+import { buildClassReport, classReportCsv } from "./report";
+import { createDefaultStats, type Stats } from "./stats";
+
+const student = (name: string, changes: Partial<Stats> = {}) => ({
+  name,
+  stats: { ...createDefaultStats(), ...changes },
+});
+
+const ana = student("Ana", {
+  xp: 50,
+  totalQuestions: 10,
+  correctQuestions: 8,
+  bestFiveScore: 5,
+  medals: ["medal_quase_lagrimas"],
+  perTopic: {
+    ...createDefaultStats().perTopic,
+    primos: { correct: 4, wrong: 0 },
+    resto: { correct: 1, wrong: 3 },
+  },
+});
+
+const bruno = student("Bruno; o 2º", {
+  totalQuestions: 4,
+  correctQuestions: 3,
+  perTopic: {
+    ...createDefaultStats().perTopic,
+    primos: { correct: 1, wrong: 1 },
+    resto: { correct: 2, wrong: 0 },
+  },
+});
+
+describe("buildClassReport", () => {
+  it("soma o acerto da turma por tópico", () => {
+    const { topics } = buildClassReport([ana, bruno]);
+    const primos = topics.find((t) => t.topic === "primos")!;
+    expect(primos).toMatchObject({ correct: 5, wrong: 1 });
+    expect(primos.accuracy).toBeCloseTo(5 / 6);
+  });
+
+  it("ordena do tópico mais fraco para o mais forte, sem respostas no fim", () => {
+    const { topics } = buildClassReport([ana, bruno]);
+    expect(topics.map((t) => t.topic).slice(0, 2)).toEqual(["resto", "primos"]);
+    expect(topics.slice(2).every((t) => t.accuracy === null)).toBe(true);
+  });
+
+  it("lista quem ficou abaixo de 60% em cada tópico", () => {
+    const { topics } = buildClassReport([ana, bruno]);
+    expect(topics.find((t) => t.topic === "resto")!.struggling).toEqual([
+      "Ana",
+    ]);
+    expect(topics.find((t) => t.topic === "primos")!.struggling).toEqual([
+      "Bruno; o 2º",
+    ]);
+  });
+
+  it("resume cada aluno com medalhas e melhor placar 5/5", () => {
+    const [a] = buildClassReport([ana, bruno]).students;
+    expect(a).toMatchObject({
+      name: "Ana",
+      xp: 50,
+      bestFiveScore: 5,
+      medals: ["medal_quase_lagrimas"],
+      accuracy: 0.8,
+    });
+    expect(a.perTopic.resto).toBe(0.25);
+    expect(a.perTopic.fatoracao).toBeNull();
+  });
+
+  it("funciona sem alunos", () => {
+    expect(buildClassReport([]).topics).toEqual([]);
+  });
+});
+
+describe("classReportCsv", () => {
+  it("gera cabeçalho, uma linha por aluno e a linha da turma", () => {
+    const lines = classReportCsv(buildClassReport([ana, bruno])).split("\n");
+    expect(lines).toHaveLength(4);
+    expect(lines[0]).toMatch(/^Estudante;XP;Sessões;Questões;Acerto \(%\)/);
+    expect(lines[0]).toContain("resto (%);primos (%)");
+    expect(lines[1]).toBe("Ana;50;0;10;80;5;Por um triz;25;100;;;;;");
+    expect(lines[3]).toBe("Turma;;;14;;;;50;83;;;;;");
+  });
+
+  it("põe entre aspas os campos com ponto e vírgula", () => {
+    const lines = classReportCsv(buildClassReport([bruno])).split("\n");
+    expect(lines[1].startsWith('"Bruno; o 2º";')).toBe(true);
+  });
+
+  it.each(["=", "+", "-", "@", "\t"])(
+    "neutraliza fórmulas em nomes que começam com %j",
+    (start) => {
+      const name = `${start}HYPERLINK("http://x")`;
+      const lines = classReportCsv(buildClassReport([student(name)])).split(
+        "\n"
+      );
+      expect(lines[1].startsWith(`"'${start}HYPERLINK(""http://x"")";`)).toBe(
+        true
+      );
+    }
+  );
+
+  it("neutraliza e põe entre aspas os nomes com \\r", () => {
+    const lines = classReportCsv(
+      buildClassReport([student("\rcmd|' /C calc'!A0")])
+    ).split("\n");
+    expect(lines[1].startsWith(`"'\rcmd|' /C calc'!A0";`)).toBe(true);
+  });
+
+  it("põe entre aspas os campos com \\r no meio", () => {
+    const lines = classReportCsv(buildClassReport([student("Ana\rB")])).split(
+      "\n"
+    );
+    expect(lines[1].startsWith('"Ana\rB";')).toBe(true);
+  });
+});
@@ -0,0 +1,143 @@
+import { medalTitle } from "./achievements";
+import type { Stats } from "./stats";
+
+// ----------------------------------------------
+// Relatório da turma (a partir de arquivos exportados pelos alunos)
+// ----------------------------------------------
+export interface StudentProgress {
+  name: string;
+  stats: Stats;
+}
+
+export interface TopicSummary {
+  topic: string;
+  correct: number;
+  wrong: number;
+  accuracy: number | null; // 0–1; null sem respostas
+  struggling: string[]; // alunos com menos de 60% de acerto no tópico
+}
+
+export interface StudentSummary {
+  name: string;
+  xp: number;
+  sessions: number;
+  totalQuestions: number;
+  accuracy: number | null;
+  bestFiveScore: number;
+  medals: string[];
+  perTopic: Record<string, number | null>;
+}
+
+export interface ClassReport {
+  students: StudentSummary[];
+  topics: TopicSummary[]; // do mais fraco para o mais forte
+}
+
+const STRUGGLING_BELOW = 0.6;
+
+const accuracyOf = (correct: number, total: number) =>
+  total > 0 ? correct / total : null;
+
+export const buildClassReport = (students: StudentProgress[]): ClassReport => {
+  const topicNames = [
+    ...new Set(students.flatMap((s) => Object.keys(s.stats.perTopic))),
+  ];
+
+  const topics = topicNames.map((topic): TopicSummary => {
+    let correct = 0;
+    let wrong = 0;
+    const struggling: string[] = [];
+    for (const { name, stats } of students) {
+      const t = stats.perTopic[topic];
+      if (!t) continue;
+      correct += t.correct;
+      wrong += t.wrong;
+      const acc = accuracyOf(t.correct, t.correct + t.wrong);
+      if (acc !== null && acc < STRUGGLING_BELOW) struggling.push(name);
+    }
+    return {
+      topic,
+      correct,
+      wrong,
+      accuracy: accuracyOf(correct, correct + wrong),
+      struggling,
+    };
+  });
+  // Tópicos sem respostas vão para o fim: não dá para dizer se são fracos
+  topics.sort((a, b) => (a.accuracy ?? 2) - (b.accuracy ?? 2));
+
+  return {
+    topics,
+    students: students.map(({ name, stats }) => ({
+      name,
+      xp: stats.xp,
+      sessions: stats.sessions,
+      totalQuestions: stats.totalQuestions,
+      accuracy: accuracyOf(stats.correctQuestions, stats.totalQuestions),
+      bestFiveScore: stats.bestFiveScore,
+      medals: stats.medals,
+      perTopic: Object.fromEntries(
+        topicNames.map((topic) => {
+          const t = stats.perTopic[topic];
+          return [topic, t ? accuracyOf(t.correct, t.correct + t.wrong) : null];
+        })
+      ),
+    })),
+  };
+};
+
+// ----------------------------------------------
+// CSV (separador ";" para abrir direto no Excel em português)
+// ----------------------------------------------
+// Textos vêm de arquivos importados: "=", "+", "-" e "@" no começo virariam
+// fórmula na planilha, então ganham um ' na frente
+const csvCell = (value: string | number) => {
+  const text =
+    typeof value === "string" && /^[=+\-@\t\r]/.test(value)
+      ? `'${value}`
+      : String(value);
+  return /[;"\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const percent = (value: number | null) =>
+  value === null ? "" : String(Math.round(value * 100));
+
+export const classReportCsv = (report: ClassReport): string => {
+  const topicNames = report.topics.map((t) => t.topic);
+  const header = [
+    "Estudante",
+    "XP",
+    "Sessões",
+    "Questões",
+    "Acerto (%)",
+    "Melhor 5/5",
+    "Medalhas",
+    ...topicNames.map((t) => `${t} (%)`),
+  ];
+  const rows = report.students.map((s) => [
+    s.name,
+    s.xp,
+    s.sessions,
+    s.totalQuestions,
+    percent(s.accuracy),
+    s.bestFiveScore,
+    s.medals.map(medalTitle).join(", "),
+    ...topicNames.map((t) => percent(s.perTopic[t])),
+  ]);
+  const classRow = [
+    "Turma",
+    "",
+    "",
+    report.students.reduce((acc, s) => acc + s.totalQuestions, 0),
+    "",
+    "",
+    "",
+    ...report.topics.map((t) => percent(t.accuracy)),
+  ];
+  return [header, ...rows, classRow]
+    .map((row) => row.map(csvCell).join(";"))
+    .join("\n");
+};
+
+export const reportFileName = (now = new Date()) =>
+  `relatorio-turma-${now.toISOString().slice(0, 10)}.csv`;
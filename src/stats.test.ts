@@ -0,0 +1,537 @@
+import { describe, expect, it } from "vitest";
+import {
+  ANSWER_MAX_LENGTH,
+  BACKUP_KEY,
+  CORRUPTED_KEY,
+  HISTORY_LIMIT,
+  LEGACY_STORAGE_KEY,
+  STATS_VERSION,
+  STORAGE_KEY,
+  createDefaultStats,
+  dayKey,
+  loadStats,
+  migrateStats,
+  removeStats,
+  migrations,
+  saveStats,
+  statsReducer,
+  validateStats,
+  type KeyValueStorage,
+  type Stats,
+} from "./stats";
+import { TYPES, type Exercise } from "./exercise";
+import { REWARDS } from "./progression";
+
+const memoryStorage = (
+  initial: Record<string, string> = {}
+): KeyValueStorage &
+  Pick<Storage, "removeItem"> & { data: Map<string, string> } => {
+  const data = new Map(Object.entries(initial));
+  return {
+    data,
+    getItem: (key) => data.get(key) ?? null,
+    setItem: (key, value) => void data.set(key, value),
+    removeItem: (key) => void data.delete(key),
+  };
+};
+
+// Formato gravado pela primeira versão do app (chave mathTutorStatsV1)
+const v1Stats = () => ({
+  xp: 120,
+  medals: ["medal_quase_lagrimas"],
+  bestFiveScore: 4,
+  sessions: 7,
+  totalQuestions: 20,
+  correctQuestions: 15,
+  perTopic: {
+    divisibilidade: { correct: 5, wrong: 1 },
+    primos: { correct: 4, wrong: 2 },
+  },
+  achievements: { medal_quase_lagrimas: "2025-09-20T12:00:00.000Z" },
+  primeHuntCompleted: true,
+});
+
+const reviewItem = {
+  key: "primos|21 é primo? (S/N)",
+  exercise: {
+    type: "primos",
+    n: 21,
+    prompt: "21 é primo? (S/N)",
+    explain: "21 não é primo; menor divisor: 3.",
+  },
+  box: 2,
+  due: "2025-09-21T12:00:00.000Z",
+  lapses: 1,
+};
+
+describe("migração V1 → V2", () => {
+  it("completa perTopic com os tópicos ausentes", () => {
+    const v2 = migrations[1](v1Stats());
+    expect(v2.perTopic).toEqual({
+      divisibilidade: { correct: 5, wrong: 1 },
+      primos: { correct: 4, wrong: 2 },
+      fatoracao: { correct: 0, wrong: 0 },
+      potenciacao: { correct: 0, wrong: 0 },
+      resto: { correct: 0, wrong: 0 },
+    });
+  });
+
+  it("cria a fila de revisão vazia", () => {
+    expect(migrations[1](v1Stats()).reviewQueue).toEqual([]);
+  });
+
+  it("preserva uma fila de revisão já existente", () => {
+    const v2 = migrations[1]({ ...v1Stats(), reviewQueue: [reviewItem] });
+    expect(v2.reviewQueue).toEqual([reviewItem]);
+  });
+
+  it("mantém os contadores e medalhas", () => {
+    const v2 = migrations[1](v1Stats());
+    expect(v2.xp).toBe(120);
+    expect(v2.medals).toEqual(["medal_quase_lagrimas"]);
+    expect(v2.primeHuntCompleted).toBe(true);
+  });
+});
+
+describe("migração V2 → V3", () => {
+  it("cria histórico e XP por dia vazios", () => {
+    const v3 = migrations[2](migrations[1](v1Stats()));
+    expect(v3.history).toEqual([]);
+    expect(v3.xpByDay).toEqual({});
+    expect(v3.xp).toBe(120);
+  });
+});
+
+describe("migração V3 → V4", () => {
+  it("cria a sequência de dias e as metas cumpridas", () => {
+    const v4 = migrations[3]({ xp: 10 });
+    expect(v4.streak).toEqual({
+      current: 0,
+      best: 0,
+      lastDay: null,
+      freezes: 0,
+    });
+    expect(v4.goalDays).toEqual([]);
+  });
+});
+
+describe("migração V4 → V5", () => {
+  it("cria o placar do desafio vazio", () => {
+    expect(migrations[4]({ xp: 10 }).challengeBests).toEqual({});
+  });
+});
+
+describe("migração V5 → V6", () => {
+  it("acrescenta MDC e MMC sem mexer nos outros tópicos", () => {
+    const v6 = migrations[5]({
+      perTopic: { primos: { correct: 3, wrong: 1 } },
+    });
+    expect(v6.perTopic).toEqual({
+      primos: { correct: 3, wrong: 1 },
+      mdc_mmc: { correct: 0, wrong: 0 },
+    });
+  });
+
+  it("preserva um tópico já existente", () => {
+    const perTopic = { mdc_mmc: { correct: 2, wrong: 0 } };
+    expect(migrations[5]({ perTopic }).perTopic).toEqual(perTopic);
+  });
+});
+
+describe("migração V6 → V7", () => {
+  it("quem completou a caça antiga fica com a faixa 0–100", () => {
+    expect(migrations[6]({ primeHuntCompleted: true }).primeHuntLimit).toBe(
+      100
+    );
+    expect(migrations[6]({}).primeHuntLimit).toBe(0);
+  });
+});
+
+describe("migração V7 → V8", () => {
+  it("cria as melhores partidas do Jogo dos Primos vazias", () => {
+    expect(migrations[7]({ xp: 10 }).primeHuntBests).toEqual({});
+  });
+});
+
+describe("migração V8 → V9", () => {
+  it("acrescenta o tópico de divisão", () => {
+    expect(migrations[8]({}).perTopic).toEqual({
+      divisao: { correct: 0, wrong: 0 },
+    });
+  });
+});
+
+describe("migrateStats", () => {
+  it("encadeia as migrações até a versão atual", () => {
+    const stats = validateStats(migrateStats(v1Stats(), 1));
+    expect(stats.sessions).toBe(7);
+    expect(Object.keys(stats.perTopic)).toHaveLength(TYPES.length);
+  });
+
+  it("não altera dados já na versão atual", () => {
+    const current = { ...createDefaultStats(), xp: 3 };
+    expect(migrateStats(current, STATS_VERSION)).toBe(current);
+  });
+
+  it("falha para versões sem migração", () => {
+    expect(() => migrateStats({}, 0)).toThrow();
+  });
+});
+
+describe("validateStats", () => {
+  it("troca números inválidos por zero", () => {
+    const stats = validateStats({ xp: -5, sessions: "7", totalQuestions: NaN });
+    expect(stats.xp).toBe(0);
+    expect(stats.sessions).toBe(0);
+    expect(stats.totalQuestions).toBe(0);
+  });
+
+  it("conserta tópicos e medalhas malformados", () => {
+    const stats = validateStats({
+      medals: ["a", 3, "a", null],
+      perTopic: { primos: { correct: 2 }, resto: "x" },
+    });
+    expect(stats.medals).toEqual(["a"]);
+    expect(stats.perTopic.primos).toEqual({ correct: 2, wrong: 0 });
+    expect(stats.perTopic.resto).toEqual({ correct: 0, wrong: 0 });
+    expect(stats.perTopic.fatoracao).toEqual({ correct: 0, wrong: 0 });
+  });
+
+  it("descarta itens de revisão inválidos e mantém os válidos", () => {
+    const stats = validateStats({
+      reviewQueue: [
+        reviewItem,
+        { ...reviewItem, exercise: { type: "primos", prompt: "?" } },
+        { ...reviewItem, due: "ontem" },
+        "lixo",
+      ],
+    });
+    expect(stats.reviewQueue).toEqual([reviewItem]);
+  });
+
+  it("descarta eventos de histórico inválidos e corta respostas longas", () => {
+    const event = {
+      at: "2025-09-20T12:00:00.000Z",
+      exercise: reviewItem.exercise,
+      answer: "x".repeat(100),
+      correct: false,
+      ms: 1500,
+    };
+    const stats = validateStats({
+      history: [event, { ...event, correct: "sim" }, { ...event, at: "?" }],
+      xpByDay: { "2025-09-20": 15, ontem: 3 },
+    });
+    expect(stats.history).toHaveLength(1);
+    expect(stats.history[0].answer).toHaveLength(ANSWER_MAX_LENGTH);
+    expect(stats.xpByDay).toEqual({ "2025-09-20": 15 });
+  });
+
+  it("guarda cada partida do Jogo dos Primos na faixa dela", () => {
+    const run = {
+      limit: 200,
+      found: 46,
+      mistakes: 1,
+      ms: 80_000,
+      score: 575,
+      at: "2025-09-20T12:00:00.000Z",
+    };
+    const stats = validateStats({
+      primeHuntBests: { 100: run, 500: { ...run, at: "?" }, x: "lixo" },
+    });
+    expect(stats.primeHuntBests).toEqual({ 200: run });
+  });
+
+  it("retorna padrões para entrada que não é objeto", () => {
+    expect(validateStats(null)).toEqual(createDefaultStats());
+    expect(validateStats([1, 2])).toEqual(createDefaultStats());
+  });
+});
+
+describe("loadStats / saveStats", () => {
+  it("usa os padrões quando não há nada salvo", () => {
+    expect(loadStats(memoryStorage())).toEqual(createDefaultStats());
+  });
+
+  it("lê o que foi salvo, com envelope de versão", () => {
+    const storage = memoryStorage();
+    const stats = { ...createDefaultStats(), xp: 42 };
+    saveStats(stats, storage);
+    expect(JSON.parse(storage.data.get(STORAGE_KEY)!).version).toBe(
+      STATS_VERSION
+    );
+    expect(loadStats(storage)).toEqual(stats);
+  });
+
+  it("migra os dados da chave antiga sem apagá-la", () => {
+    const legacy = JSON.stringify(v1Stats());
+    const storage = memoryStorage({ [LEGACY_STORAGE_KEY]: legacy });
+    const stats = loadStats(storage);
+    expect(stats.xp).toBe(120);
+    expect(stats.reviewQueue).toEqual([]);
+    expect(storage.data.get(LEGACY_STORAGE_KEY)).toBe(legacy);
+    expect(storage.data.has(STORAGE_KEY)).toBe(true);
+  });
+
+  it("recupera da cópia de segurança quando o JSON está corrompido", () => {
+    const storage = memoryStorage();
+    saveStats({ ...createDefaultStats(), xp: 99 }, storage);
+    loadStats(storage); // leitura boa gera a cópia de segurança
+    storage.data.set(STORAGE_KEY, '{"version":2,"stats":{"xp":');
+
+    expect(loadStats(storage).xp).toBe(99);
+    expect(storage.data.get(CORRUPTED_KEY)).toBe('{"version":2,"stats":{"xp":');
+    expect(storage.data.get(BACKUP_KEY)).toBe(storage.data.get(STORAGE_KEY));
+  });
+
+  it("perfis novos não herdam os dados da chave antiga", () => {
+    const storage = memoryStorage({
+      [LEGACY_STORAGE_KEY]: JSON.stringify(v1Stats()),
+    });
+    expect(loadStats(storage, `${STORAGE_KEY}:outro`)).toEqual(
+      createDefaultStats()
+    );
+  });
+
+  it("apagar o perfil original não deixa a chave antiga ressuscitá-lo", () => {
+    const storage = memoryStorage({
+      [LEGACY_STORAGE_KEY]: JSON.stringify(v1Stats()),
+    });
+    loadStats(storage);
+    removeStats(STORAGE_KEY, storage);
+    expect([...storage.data.keys()]).toEqual([]);
+    expect(loadStats(storage)).toEqual(createDefaultStats());
+  });
+
+  it("apagar outro perfil não mexe na chave antiga", () => {
+    const legacy = JSON.stringify(v1Stats());
+    const storage = memoryStorage({ [LEGACY_STORAGE_KEY]: legacy });
+    removeStats(`${STORAGE_KEY}:outro`, storage);
+    expect(storage.data.get(LEGACY_STORAGE_KEY)).toBe(legacy);
+  });
+
+  it("cai para a chave antiga se não houver cópia de segurança", () => {
+    const storage = memoryStorage({
+      [STORAGE_KEY]: "não é json",
+      [LEGACY_STORAGE_KEY]: JSON.stringify(v1Stats()),
+    });
+    expect(loadStats(storage).sessions).toBe(7);
+  });
+});
+
+const huntRun = (limit: number, score: number, ms: number) => ({
+  limit,
+  found: 25,
+  mistakes: 2,
+  ms,
+  score,
+  at: "2025-09-20T12:00:00.000Z",
+});
+
+describe("statsReducer", () => {
+  const at = "2025-09-20T12:00:00.000Z";
+  const exercise = reviewItem.exercise as Exercise;
+
+  it("não altera o estado anterior", () => {
+    const state = createDefaultStats();
+    const next = statsReducer(state, { type: "awardXp", amount: 5, at });
+    expect(next.xp).toBe(5);
+    expect(state.xp).toBe(0);
+  });
+
+  it("awardXp soma o XP no dia local", () => {
+    let state = statsReducer(createDefaultStats(), {
+      type: "awardXp",
+      amount: 5,
+      at,
+    });
+    state = statsReducer(state, { type: "awardXp", amount: 2, at });
+    expect(state.xpByDay).toEqual({ [dayKey(new Date(at))]: 7 });
+  });
+
+  it("recordAnswer conta a resposta no total e no tópico", () => {
+    const next = statsReducer(createDefaultStats(), {
+      type: "recordAnswer",
+      exercise,
+      answer: "n",
+      correct: true,
+      ms: 2000,
+      at,
+    });
+    expect(next.totalQuestions).toBe(1);
+    expect(next.correctQuestions).toBe(1);
+    expect(next.perTopic.primos).toEqual({
+      correct: 1,
+      wrong: 0,
+      lastSeen: at,
+    });
+  });
+
+  it("recordAnswer errada coloca o exercício na revisão", () => {
+    const next = statsReducer(createDefaultStats(), {
+      type: "recordAnswer",
+      exercise,
+      answer: "s",
+      correct: false,
+      ms: null,
+      at,
+    });
+    expect(next.reviewQueue).toHaveLength(1);
+    expect(next.reviewQueue[0]).toMatchObject({ box: 1, due: at, lapses: 1 });
+  });
+
+  it("recordAnswer certa sobe o item da revisão de caixa", () => {
+    const state = { ...createDefaultStats(), reviewQueue: [reviewItem] };
+    const next = statsReducer(state as Stats, {
+      type: "recordAnswer",
+      exercise,
+      answer: "n",
+      correct: true,
+      ms: null,
+      at,
+    });
+    expect(next.reviewQueue[0].box).toBe(3);
+  });
+
+  it("recordAnswer ilegível não devolve o item da revisão à caixa 1", () => {
+    const state = { ...createDefaultStats(), reviewQueue: [reviewItem] };
+    for (const answer of ["", "   ", "abc"]) {
+      const next = statsReducer(state as Stats, {
+        type: "recordAnswer",
+        exercise,
+        answer,
+        correct: false,
+        ms: null,
+        at,
+      });
+      expect(next).toBe(state);
+      expect(next.reviewQueue).toEqual([reviewItem]);
+    }
+  });
+
+  it("recordAnswer guarda o evento no histórico", () => {
+    const next = statsReducer(createDefaultStats(), {
+      type: "recordAnswer",
+      exercise,
+      answer: "n",
+      correct: true,
+      ms: 2000,
+      at,
+    });
+    expect(next.history).toEqual([
+      { at, exercise, answer: "n", correct: true, ms: 2000 },
+    ]);
+  });
+
+  it("recordAnswer avança a sequência de dias", () => {
+    const next = statsReducer(createDefaultStats(), {
+      type: "recordAnswer",
+      exercise,
+      answer: "n",
+      correct: true,
+      ms: null,
+      at,
+    });
+    expect(next.streak).toMatchObject({
+      current: 1,
+      lastDay: dayKey(new Date(at)),
+    });
+  });
+
+  it("dá o bônus das metas diárias uma única vez por dia", () => {
+    let state = createDefaultStats();
+    for (let i = 0; i < 10; i++) {
+      state = statsReducer(state, {
+        type: "recordAnswer",
+        exercise,
+        answer: "n",
+        correct: true,
+        ms: null,
+        at,
+      });
+      state = statsReducer(state, {
+        type: "awardXp",
+        amount: REWARDS.correctAnswer,
+        at,
+      });
+    }
+    const day = dayKey(new Date(at));
+    expect(state.goalDays).toEqual([day]);
+    expect(state.xp).toBe(10 * REWARDS.correctAnswer + REWARDS.dailyGoals);
+    expect(state.xpByDay[day]).toBe(state.xp);
+  });
+
+  it("o histórico mantém só os eventos mais recentes", () => {
+    const old = { at, exercise, answer: "", correct: true, ms: null };
+    const state = {
+      ...createDefaultStats(),
+      history: Array.from({ length: HISTORY_LIMIT }, () => old),
+    };
+    const later = "2025-09-21T12:00:00.000Z";
+    const next = statsReducer(state, {
+      type: "recordAnswer",
+      exercise,
+      answer: "n",
+      correct: false,
+      ms: 900,
+      at: later,
+    });
+    expect(next.history).toHaveLength(HISTORY_LIMIT);
+    expect(next.history.at(-1)!.at).toBe(later);
+  });
+
+  it("awardMedal não duplica medalhas", () => {
+    const action = { type: "awardMedal", medal: "m", at } as const;
+    const next = statsReducer(
+      statsReducer(createDefaultStats(), action),
+      action
+    );
+    expect(next.medals).toEqual(["m"]);
+    expect(next.achievements.m).toBe(at);
+  });
+
+  it("finishChallenge guarda a partida no placar do modo", () => {
+    const run = { score: 42, correct: 4, answered: 5, bestStreak: 3, at };
+    const next = statsReducer(createDefaultStats(), {
+      type: "finishChallenge",
+      key: "60|iniciante",
+      run,
+    });
+    expect(next.challengeBests).toEqual({ "60|iniciante": [run] });
+  });
+
+  it("finishFive guarda só o melhor placar", () => {
+    let state = statsReducer(createDefaultStats(), {
+      type: "finishFive",
+      score: 4,
+    });
+    state = statsReducer(state, { type: "finishFive", score: 2 });
+    expect(state.bestFiveScore).toBe(4);
+  });
+
+  it("completePrimeHunt guarda a maior faixa completada", () => {
+    let state = statsReducer(createDefaultStats(), {
+      type: "completePrimeHunt",
+      run: huntRun(200, 300, 90_000),
+    });
+    expect(state.primeHuntCompleted).toBe(false);
+    state = statsReducer(state, {
+      type: "completePrimeHunt",
+      run: huntRun(100, 250, 60_000),
+    });
+    expect(state.primeHuntCompleted).toBe(true);
+    expect(state.primeHuntLimit).toBe(200);
+  });
+
+  it("completePrimeHunt guarda só a melhor partida de cada faixa", () => {
+    const best = huntRun(100, 250, 60_000);
+    let state = statsReducer(createDefaultStats(), {
+      type: "completePrimeHunt",
+      run: best,
+    });
+    state = statsReducer(state, {
+      type: "completePrimeHunt",
+      run: huntRun(100, 200, 30_000),
+    });
+    expect(state.primeHuntBests).toEqual({ 100: best });
+  });
+});
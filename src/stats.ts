@@ -0,0 +1,632 @@
+import {
+  TYPES,
+  isExercise,
+  type Exercise,
+  type ExerciseType,
+} from "./exercise";
+import { rankRuns, type ChallengeRun } from "./challenge";
+import { checkAnswer } from "./checkers";
+import { isBetterRun, type PrimeHuntRun } from "./primeHunt";
+import {
+  REWARDS,
+  advanceStreak,
+  createStreak,
+  dailyGoalsDone,
+  type StreakState,
+} from "./progression";
+
+// ----------------------------------------------
+// Persistência (localStorage) — formato versionado com migrações
+// ----------------------------------------------
+export interface TopicStats {
+  correct: number;
+  wrong: number;
+  lastSeen?: string; // ISO da última resposta no tópico
+}
+
+export interface ReviewItem {
+  key: string;
+  exercise: Exercise; // parâmetros exatos para refazer a mesma questão
+  box: number; // 1..REVIEW_INTERVALS_DAYS.length
+  due: string; // ISO
+  lapses: number;
+}
+
+// Uma resposta dada (Jogo 5/5 ou Revisão); o tópico é exercise.type
+export interface AnswerEvent {
+  at: string; // ISO
+  exercise: Exercise;
+  answer: string; // como o aluno digitou (cortado em ANSWER_MAX_LENGTH)
+  correct: boolean;
+  ms: number | null; // tempo até responder; null se desconhecido
+}
+
+export interface Stats {
+  xp: number;
+  medals: string[];
+  bestFiveScore: number;
+  sessions: number;
+  totalQuestions: number;
+  correctQuestions: number;
+  perTopic: Record<string, TopicStats>;
+  achievements: Record<string, string>;
+  primeHuntCompleted: boolean; // faixa 0–100 completada no Jogo dos Primos
+  primeHuntLimit: number; // maior faixa 0–N completada no Jogo dos Primos
+  primeHuntBests: Record<string, PrimeHuntRun>; // faixa ("100") → melhor partida
+  reviewQueue: ReviewItem[];
+  history: AnswerEvent[]; // mais antigas primeiro, no máximo HISTORY_LIMIT
+  xpByDay: Record<string, number>; // dia local (AAAA-MM-DD) → XP ganho
+  streak: StreakState; // dias seguidos com prática
+  goalDays: string[]; // dias com todas as metas diárias cumpridas
+  challengeBests: Record<string, ChallengeRun[]>; // challengeKey → placar
+  mergedImports: string[]; // impressões dos arquivos já mesclados
+}
+
+export const STATS_VERSION = 10;
+export const STORAGE_KEY = "mathTutorStats";
+const backupKeyOf = (key: string) => `${key}.backup`;
+const corruptedKeyOf = (key: string) => `${key}.corrupted`;
+export const BACKUP_KEY = backupKeyOf(STORAGE_KEY);
+export const CORRUPTED_KEY = corruptedKeyOf(STORAGE_KEY);
+// V1 gravava o objeto Stats direto, sem envelope de versão
+export const LEGACY_STORAGE_KEY = "mathTutorStatsV1";
+
+// Limites do histórico (o localStorage tem poucos MB por site)
+export const HISTORY_LIMIT = 1000;
+export const ANSWER_MAX_LENGTH = 40;
+export const GOAL_DAYS_LIMIT = 60;
+export const MERGED_IMPORTS_LIMIT = 100;
+
+export const createDefaultStats = (): Stats => ({
+  xp: 0,
+  medals: [],
+  bestFiveScore: 0,
+  sessions: 0,
+  totalQuestions: 0,
+  correctQuestions: 0,
+  perTopic: Object.fromEntries(TYPES.map((t) => [t, { correct: 0, wrong: 0 }])),
+  achievements: {},
+  primeHuntCompleted: false,
+  primeHuntLimit: 0,
+  primeHuntBests: {},
+  reviewQueue: [],
+  history: [],
+  xpByDay: {},
+  streak: createStreak(),
+  goalDays: [],
+  challengeBests: {},
+  mergedImports: [],
+});
+
+type RawStats = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is RawStats =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// ----------------------------------------------
+// Migrações: migrations[n] leva os dados da versão n para n + 1
+// ----------------------------------------------
+export type Migration = (data: RawStats) => RawStats;
+
+// Acrescenta tópicos zerados sem mexer nos que já existem
+const withTopics = (data: RawStats, topics: readonly string[]) => {
+  const perTopic = isRecord(data.perTopic) ? { ...data.perTopic } : {};
+  for (const t of topics) {
+    if (!isRecord(perTopic[t])) perTopic[t] = { correct: 0, wrong: 0 };
+  }
+  return perTopic;
+};
+
+// Tópicos que existiam na V2 (as migrações não acompanham TYPES)
+const V2_TOPICS = [
+  "divisibilidade",
+  "primos",
+  "fatoracao",
+  "potenciacao",
+  "resto",
+];
+
+export const migrations: Record<number, Migration> = {
+  // V1 → V2: fila de revisão e todos os tópicos presentes em perTopic
+  1: (data) => {
+    const perTopic = withTopics(data, V2_TOPICS);
+    return {
+      ...data,
+      perTopic,
+      reviewQueue: Array.isArray(data.reviewQueue) ? data.reviewQueue : [],
+    };
+  },
+  // V2 → V3: histórico de respostas e XP por dia (começam vazios)
+  2: (data) => ({
+    ...data,
+    history: Array.isArray(data.history) ? data.history : [],
+    xpByDay: isRecord(data.xpByDay) ? data.xpByDay : {},
+  }),
+  // V3 → V4: sequência de dias e metas diárias (começam zeradas)
+  3: (data) => ({
+    ...data,
+    streak: isRecord(data.streak) ? data.streak : createStreak(),
+    goalDays: Array.isArray(data.goalDays) ? data.goalDays : [],
+  }),
+  // V4 → V5: recordes do desafio cronometrado
+  4: (data) => ({
+    ...data,
+    challengeBests: isRecord(data.challengeBests) ? data.challengeBests : {},
+  }),
+  // V5 → V6: tópico novo (MDC e MMC)
+  5: (data) => ({ ...data, perTopic: withTopics(data, ["mdc_mmc"]) }),
+  // V6 → V7: faixas maiores no Jogo dos Primos (antes só havia 0–100)
+  6: (data) => ({
+    ...data,
+    primeHuntLimit:
+      data.primeHuntLimit ?? (data.primeHuntCompleted === true ? 100 : 0),
+  }),
+  // V7 → V8: melhor partida de cada faixa do Jogo dos Primos
+  7: (data) => ({
+    ...data,
+    primeHuntBests: isRecord(data.primeHuntBests) ? data.primeHuntBests : {},
+  }),
+  // V8 → V9: tópico novo (divisão com quociente e resto)
+  8: (data) => ({ ...data, perTopic: withTopics(data, ["divisao"]) }),
+  // V9 → V10: arquivos já mesclados (importar de novo não soma duas vezes)
+  9: (data) => ({
+    ...data,
+    mergedImports: Array.isArray(data.mergedImports) ? data.mergedImports : [],
+  }),
+};
+
+export const migrateStats = (data: RawStats, fromVersion: number): RawStats => {
+  let migrated = data;
+  for (let v = fromVersion; v < STATS_VERSION; v++) {
+    const step = migrations[v];
+    if (!step) throw new Error(`Sem migração de Stats para a versão ${v}`);
+    migrated = step(migrated);
+  }
+  return migrated;
+};
+
+// ----------------------------------------------
+// Validação: conserta campo a campo em vez de descartar tudo
+// ----------------------------------------------
+const toCount = (value: unknown) =>
+  Number.isFinite(value) && (value as number) >= 0
+    ? Math.floor(value as number)
+    : 0;
+
+const isDateString = (value: unknown): value is string =>
+  typeof value === "string" && !Number.isNaN(Date.parse(value));
+
+const validateTopic = (value: unknown): TopicStats => {
+  const raw = isRecord(value) ? value : {};
+  const topic: TopicStats = {
+    correct: toCount(raw.correct),
+    wrong: toCount(raw.wrong),
+  };
+  if (isDateString(raw.lastSeen)) topic.lastSeen = raw.lastSeen;
+  return topic;
+};
+
+const validateReviewItem = (value: unknown): ReviewItem | null => {
+  if (!isRecord(value)) return null;
+  if (typeof value.key !== "string" || !isExercise(value.exercise)) {
+    return null;
+  }
+  if (!isDateString(value.due)) return null;
+  return {
+    key: value.key,
+    exercise: value.exercise,
+    box: Math.max(1, toCount(value.box)),
+    due: value.due,
+    lapses: toCount(value.lapses),
+  };
+};
+
+const validateAnswerEvent = (value: unknown): AnswerEvent | null => {
+  if (!isRecord(value)) return null;
+  if (!isDateString(value.at) || !isExercise(value.exercise)) return null;
+  if (typeof value.correct !== "boolean") return null;
+  return {
+    at: value.at,
+    exercise: value.exercise,
+    answer:
+      typeof value.answer === "string"
+        ? value.answer.slice(0, ANSWER_MAX_LENGTH)
+        : "",
+    correct: value.correct,
+    ms: Number.isFinite(value.ms) ? toCount(value.ms) : null,
+  };
+};
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const isDayKey = (value: unknown): value is string =>
+  typeof value === "string" && DAY_PATTERN.test(value);
+
+const validateStreak = (value: unknown): StreakState => {
+  const raw = isRecord(value) ? value : {};
+  const current = toCount(raw.current);
+  return {
+    current,
+    best: Math.max(current, toCount(raw.best)),
+    lastDay: isDayKey(raw.lastDay) ? raw.lastDay : null,
+    freezes: toCount(raw.freezes),
+  };
+};
+
+const validateChallengeRun = (value: unknown): ChallengeRun | null => {
+  if (!isRecord(value) || !isDateString(value.at)) return null;
+  const answered = toCount(value.answered);
+  return {
+    score: toCount(value.score),
+    correct: Math.min(toCount(value.correct), answered),
+    answered,
+    bestStreak: toCount(value.bestStreak),
+    at: value.at,
+  };
+};
+
+const validatePrimeHuntRun = (value: unknown): PrimeHuntRun | null => {
+  if (!isRecord(value) || !isDateString(value.at)) return null;
+  const limit = toCount(value.limit);
+  if (limit === 0) return null;
+  return {
+    limit,
+    found: toCount(value.found),
+    mistakes: toCount(value.mistakes),
+    ms: toCount(value.ms),
+    score: toCount(value.score),
+    at: value.at,
+  };
+};
+
+export const validateStats = (data: unknown): Stats => {
+  const raw = isRecord(data) ? data : {};
+  const stats = createDefaultStats();
+
+  stats.xp = toCount(raw.xp);
+  stats.bestFiveScore = toCount(raw.bestFiveScore);
+  stats.sessions = toCount(raw.sessions);
+  stats.totalQuestions = toCount(raw.totalQuestions);
+  stats.correctQuestions = Math.min(
+    toCount(raw.correctQuestions),
+    stats.totalQuestions
+  );
+  stats.primeHuntCompleted = raw.primeHuntCompleted === true;
+  stats.primeHuntLimit = toCount(raw.primeHuntLimit);
+
+  if (Array.isArray(raw.medals)) {
+    stats.medals = [
+      ...new Set(raw.medals.filter((m): m is string => typeof m === "string")),
+    ];
+  }
+  if (isRecord(raw.achievements)) {
+    for (const [id, date] of Object.entries(raw.achievements)) {
+      if (isDateString(date)) stats.achievements[id] = date;
+    }
+  }
+  // Mantém tópicos desconhecidos (ex.: vindos de uma versão mais nova)
+  const rawTopics = isRecord(raw.perTopic) ? raw.perTopic : {};
+  for (const t of new Set([...TYPES, ...Object.keys(rawTopics)])) {
+    stats.perTopic[t] = validateTopic(rawTopics[t]);
+  }
+  if (Array.isArray(raw.reviewQueue)) {
+    stats.reviewQueue = raw.reviewQueue
+      .map(validateReviewItem)
+      .filter((item): item is ReviewItem => item !== null);
+  }
+  if (Array.isArray(raw.history)) {
+    stats.history = raw.history
+      .map(validateAnswerEvent)
+      .filter((event): event is AnswerEvent => event !== null)
+      .slice(-HISTORY_LIMIT);
+  }
+  if (isRecord(raw.xpByDay)) {
+    for (const [day, xp] of Object.entries(raw.xpByDay)) {
+      if (isDayKey(day)) stats.xpByDay[day] = toCount(xp);
+    }
+  }
+  stats.streak = validateStreak(raw.streak);
+  if (Array.isArray(raw.goalDays)) {
+    stats.goalDays = [...new Set(raw.goalDays.filter(isDayKey))]
+      .sort()
+      .slice(-GOAL_DAYS_LIMIT);
+  }
+  if (isRecord(raw.challengeBests)) {
+    for (const [key, runs] of Object.entries(raw.challengeBests)) {
+      if (!Array.isArray(runs)) continue;
+      stats.challengeBests[key] = rankRuns(
+        runs
+          .map(validateChallengeRun)
+          .filter((run): run is ChallengeRun => run !== null)
+      );
+    }
+  }
+  if (isRecord(raw.primeHuntBests)) {
+    for (const value of Object.values(raw.primeHuntBests)) {
+      const run = validatePrimeHuntRun(value);
+      // A chave sai da própria partida, para não divergir de run.limit
+      if (run) stats.primeHuntBests[run.limit] = run;
+    }
+  }
+  if (Array.isArray(raw.mergedImports)) {
+    stats.mergedImports = [
+      ...new Set(
+        raw.mergedImports.filter((m): m is string => typeof m === "string")
+      ),
+    ].slice(-MERGED_IMPORTS_LIMIT);
+  }
+  return stats;
+};
+
+// ----------------------------------------------
+// Leitura e gravação
+// ----------------------------------------------
+export type KeyValueStorage = Pick<Storage, "getItem" | "setItem">;
+
+// Migra e valida dados de qualquer versão; lança erro se não houver migração
+export const upgradeStats = (data: unknown, version: number): Stats =>
+  validateStats(migrateStats(isRecord(data) ? data : {}, version));
+
+// Lança erro se o texto não for JSON ou não houver migração possível
+const parseStored = (text: string): Stats => {
+  const parsed: unknown = JSON.parse(text);
+  const versioned =
+    isRecord(parsed) && Number.isInteger(parsed.version) && "stats" in parsed;
+  return versioned
+    ? upgradeStats(parsed.stats, parsed.version as number)
+    : upgradeStats(parsed, 1);
+};
+
+// key: chave do perfil (ver statsKeyFor); STORAGE_KEY é o perfil original
+export const saveStats = (
+  stats: Stats,
+  storage: KeyValueStorage = localStorage,
+  key = STORAGE_KEY
+): void => {
+  storage.setItem(key, JSON.stringify({ version: STATS_VERSION, stats }));
+};
+
+export const loadStats = (
+  storage: KeyValueStorage = localStorage,
+  key = STORAGE_KEY
+): Stats => {
+  const text = storage.getItem(key);
+  if (text !== null) {
+    try {
+      const stats = parseStored(text);
+      if (storage.getItem(backupKeyOf(key)) !== text) {
+        storage.setItem(backupKeyOf(key), text);
+      }
+      return stats;
+    } catch {
+      // Guarda o conteúdo ilegível para recuperação manual
+      storage.setItem(corruptedKeyOf(key), text);
+    }
+  }
+  // Última cópia boa ou dados do formato antigo (V1, só do perfil original)
+  const fallbacks = [backupKeyOf(key)];
+  if (key === STORAGE_KEY) fallbacks.push(LEGACY_STORAGE_KEY);
+  for (const fallbackKey of fallbacks) {
+    const fallback = storage.getItem(fallbackKey);
+    if (fallback === null) continue;
+    try {
+      const stats = parseStored(fallback);
+      saveStats(stats, storage, key);
+      return stats;
+    } catch {
+      // tenta a próxima fonte
+    }
+  }
+  return createDefaultStats();
+};
+
+// Apaga os dados de um perfil (principal, cópia e conteúdo corrompido). O
+// perfil original também perde a chave antiga, senão loadStats a migraria
+// de volta
+export const removeStats = (
+  key: string,
+  storage: Pick<Storage, "removeItem"> = localStorage
+): void => {
+  const keys = [key, backupKeyOf(key), corruptedKeyOf(key)];
+  if (key === STORAGE_KEY) keys.push(LEGACY_STORAGE_KEY);
+  for (const k of keys) storage.removeItem(k);
+};
+
+// ----------------------------------------------
+// Medalhas
+// ----------------------------------------------
+export const awardMedal = (
+  stats: Stats,
+  medalId: string,
+  at = new Date().toISOString()
+): Stats => {
+  if (!stats.medals.includes(medalId)) {
+    stats.medals.push(medalId);
+  }
+  stats.achievements[medalId] = at;
+  return stats;
+};
+
+// ----------------------------------------------
+// Revisão espaçada (caixas de Leitner para exercícios errados)
+// ----------------------------------------------
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Intervalo até a próxima revisão ao entrar em cada caixa
+export const REVIEW_INTERVALS_DAYS = [0, 1, 3, 7, 14];
+
+export const exerciseKey = (ex: Exercise) => `${ex.type}|${ex.prompt}`;
+
+const addDays = (date: Date, days: number) =>
+  new Date(date.getTime() + days * DAY_MS).toISOString();
+
+// Erro (no jogo ou na revisão): volta para a caixa 1
+export const enqueueReview = (stats: Stats, ex: Exercise, now = new Date()) => {
+  const key = exerciseKey(ex);
+  const item = stats.reviewQueue.find((i) => i.key === key);
+  if (item) {
+    item.box = 1;
+    item.lapses += 1;
+    item.due = addDays(now, REVIEW_INTERVALS_DAYS[0]);
+  } else {
+    stats.reviewQueue.push({
+      key,
+      exercise: ex,
+      box: 1,
+      due: addDays(now, REVIEW_INTERVALS_DAYS[0]),
+      lapses: 1,
+    });
+  }
+  return stats;
+};
+
+// Acerto: sobe uma caixa; acertar na última tira o item da fila
+export const recordReview = (
+  stats: Stats,
+  key: string,
+  correct: boolean,
+  now = new Date()
+) => {
+  const item = stats.reviewQueue.find((i) => i.key === key);
+  if (!item) return stats;
+  if (!correct) return enqueueReview(stats, item.exercise, now);
+  if (item.box >= REVIEW_INTERVALS_DAYS.length) {
+    stats.reviewQueue = stats.reviewQueue.filter((i) => i.key !== key);
+  } else {
+    item.box += 1;
+    item.due = addDays(now, REVIEW_INTERVALS_DAYS[item.box - 1]);
+  }
+  return stats;
+};
+
+export const dueReviews = (queue: ReviewItem[], now = Date.now()) =>
+  queue
+    .filter((i) => Date.parse(i.due) <= now)
+    .sort((a, b) => Date.parse(a.due) - Date.parse(b.due));
+
+// ----------------------------------------------
+// Histórico (eventos de resposta e XP por dia)
+// ----------------------------------------------
+const pad2 = (n: number) => String(n).padStart(2, "0");
+
+// Dia no fuso do aparelho: uma resposta às 22h conta para o dia do aluno
+export const dayKey = (date: Date) =>
+  `${date.getFullYear()}-${pad2(date.getMonth() + 1)}-${pad2(date.getDate())}`;
+
+const addXp = (stats: Stats, amount: number, day: string) => {
+  stats.xp += amount;
+  stats.xpByDay[day] = (stats.xpByDay[day] ?? 0) + amount;
+};
+
+// Bônus das metas diárias: uma vez por dia, assim que todas forem cumpridas
+export const checkDailyGoals = (stats: Stats, day: string) => {
+  if (stats.goalDays.includes(day) || !dailyGoalsDone(stats, day)) {
+    return stats;
+  }
+  stats.goalDays = [...stats.goalDays, day].slice(-GOAL_DAYS_LIMIT);
+  addXp(stats, REWARDS.dailyGoals, day);
+  return stats;
+};
+
+export const recordHistory = (stats: Stats, event: AnswerEvent) => {
+  stats.history.push({
+    ...event,
+    answer: event.answer.slice(0, ANSWER_MAX_LENGTH),
+  });
+  if (stats.history.length > HISTORY_LIMIT) {
+    stats.history = stats.history.slice(-HISTORY_LIMIT);
+  }
+  return stats;
+};
+
+// ----------------------------------------------
+// Reducer: única forma de alterar Stats (usado pelo StatsProvider)
+// ----------------------------------------------
+export type StatsAction =
+  | { type: "awardXp"; amount: number; at: string }
+  | {
+      type: "recordAnswer";
+      exercise: Exercise;
+      answer: string;
+      correct: boolean;
+      ms: number | null;
+      at: string;
+    }
+  | { type: "awardMedal"; medal: string; at: string }
+  | { type: "startSession" }
+  | { type: "finishFive"; score: number }
+  | { type: "completePrimeHunt"; run: PrimeHuntRun }
+  | { type: "finishChallenge"; key: string; run: ChallengeRun }
+  | { type: "replace"; stats: Stats };
+
+const bumpTopic = (
+  stats: Stats,
+  topic: ExerciseType,
+  correct: boolean,
+  at: string
+) => {
+  const entry = (stats.perTopic[topic] ??= { correct: 0, wrong: 0 });
+  entry[correct ? "correct" : "wrong"] += 1;
+  entry.lastSeen = at;
+};
+
+export const statsReducer = (state: Stats, action: StatsAction): Stats => {
+  if (action.type === "replace") return action.stats;
+  // Resposta ilegível não é erro: não mexe em contadores nem na revisão
+  if (
+    action.type === "recordAnswer" &&
+    checkAnswer(action.exercise, action.answer).invalid
+  ) {
+    return state;
+  }
+  // Copia antes de alterar: o reducer precisa ser puro
+  const s = structuredClone(state);
+  switch (action.type) {
+    case "awardXp": {
+      const day = dayKey(new Date(action.at));
+      addXp(s, action.amount, day);
+      checkDailyGoals(s, day);
+      break;
+    }
+    case "recordAnswer": {
+      const { exercise, answer, correct, ms, at } = action;
+      s.totalQuestions += 1;
+      if (correct) s.correctQuestions += 1;
+      bumpTopic(s, exercise.type, correct, at);
+      recordHistory(s, { at, exercise, answer, correct, ms });
+      // Erro entra na revisão; acerto de item da fila sobe de caixa
+      if (!correct) enqueueReview(s, exercise, new Date(at));
+      else recordReview(s, exerciseKey(exercise), true, new Date(at));
+      const day = dayKey(new Date(at));
+      s.streak = advanceStreak(s.streak, day);
+      checkDailyGoals(s, day);
+      break;
+    }
+    case "awardMedal":
+      awardMedal(s, action.medal, action.at);
+      break;
+    case "startSession":
+      s.sessions += 1;
+      break;
+    case "finishFive":
+      s.bestFiveScore = Math.max(s.bestFiveScore, action.score);
+      break;
+    case "completePrimeHunt": {
+      const { run } = action;
+      // A medalha "Caçador de primos" é só da faixa 0–100
+      if (run.limit === 100) s.primeHuntCompleted = true;
+      s.primeHuntLimit = Math.max(s.primeHuntLimit, run.limit);
+      if (isBetterRun(run, s.primeHuntBests[run.limit])) {
+        s.primeHuntBests[run.limit] = run;
+      }
+      break;
+    }
+    case "finishChallenge":
+      s.challengeBests[action.key] = rankRuns([
+        ...(s.challengeBests[action.key] ?? []),
+        action.run,
+      ]);
+      break;
+  }
+  return s;
+};
@@ -0,0 +1,233 @@
+import { describe, expect, it } from "vitest";
+import { STATS_VERSION, createDefaultStats, type Stats } from "./stats";
+import {
+  EXPORT_FORMAT,
+  exportFileName,
+  exportProgress,
+  mergeStats,
+  parseProgressFile,
+  summarizeChanges,
+} from "./transfer";
+
+const exercise = {
+  type: "primos" as const,
+  n: 21,
+  prompt: "21 é primo? (S/N)",
+  explain: "21 não é primo; menor divisor: 3.",
+};
+
+const statsWith = (overrides: Partial<Stats>): Stats => ({
+  ...createDefaultStats(),
+  ...overrides,
+});
+
+describe("exportProgress / parseProgressFile", () => {
+  it("ida e volta preservam os dados", () => {
+    const stats = statsWith({ xp: 80, medals: ["m1"] });
+    const text = exportProgress(stats, { name: "Ana", avatar: "🦊" }, "x");
+    const imported = parseProgressFile(text);
+    expect(imported.stats).toEqual(stats);
+    expect(imported.profile).toEqual({ name: "Ana", avatar: "🦊" });
+    expect(JSON.parse(text).version).toBe(STATS_VERSION);
+  });
+
+  it("migra arquivos de versões anteriores", () => {
+    const text = JSON.stringify({
+      format: EXPORT_FORMAT,
+      version: 1,
+      stats: { xp: 10, perTopic: { primos: { correct: 1, wrong: 0 } } },
+    });
+    const { stats } = parseProgressFile(text);
+    expect(stats.xp).toBe(10);
+    expect(stats.reviewQueue).toEqual([]);
+    expect(stats.perTopic.resto).toEqual({ correct: 0, wrong: 0 });
+  });
+
+  it.each([
+    ["{", "JSON válido"],
+    [JSON.stringify({ xp: 1 }), "não é um progresso"],
+    [JSON.stringify({ format: EXPORT_FORMAT }), "Versão"],
+    [
+      JSON.stringify({ format: EXPORT_FORMAT, version: STATS_VERSION + 1 }),
+      "mais nova",
+    ],
+  ])("rejeita %s", (text, message) => {
+    expect(() => parseProgressFile(text)).toThrow(message);
+  });
+});
+
+describe("exportFileName", () => {
+  it("usa o nome sem acentos e a data", () => {
+    expect(exportFileName("João Vitor", new Date("2025-09-20T12:00:00Z"))).toBe(
+      "progresso-joao-vitor-2025-09-20.json"
+    );
+  });
+});
+
+describe("mergeStats", () => {
+  const a = statsWith({
+    xp: 100,
+    sessions: 2,
+    totalQuestions: 10,
+    correctQuestions: 7,
+    bestFiveScore: 3,
+    medals: ["m1"],
+    achievements: { m1: "2025-09-10T00:00:00.000Z" },
+    perTopic: {
+      ...createDefaultStats().perTopic,
+      primos: { correct: 3, wrong: 1, lastSeen: "2025-09-01T00:00:00.000Z" },
+    },
+    reviewQueue: [
+      {
+        key: "k",
+        exercise,
+        box: 3,
+        due: "2025-09-30T00:00:00.000Z",
+        lapses: 1,
+      },
+    ],
+    history: [
+      {
+        at: "2025-09-10T00:00:00.000Z",
+        exercise,
+        answer: "",
+        correct: true,
+        ms: null,
+      },
+      {
+        at: "2025-09-16T00:00:00.000Z",
+        exercise,
+        answer: "",
+        correct: false,
+        ms: null,
+      },
+    ],
+    xpByDay: { "2025-09-10": 100 },
+    primeHuntBests: {
+      100: {
+        limit: 100,
+        found: 25,
+        mistakes: 3,
+        ms: 90_000,
+        score: 245,
+        at: "2025-09-10T00:00:00.000Z",
+      },
+    },
+  });
+  const b = statsWith({
+    xp: 50,
+    sessions: 1,
+    totalQuestions: 5,
+    correctQuestions: 5,
+    bestFiveScore: 5,
+    medals: ["m1", "m2"],
+    achievements: {
+      m1: "2025-09-05T00:00:00.000Z",
+      m2: "2025-09-12T00:00:00.000Z",
+    },
+    perTopic: {
+      ...createDefaultStats().perTopic,
+      primos: { correct: 2, wrong: 2, lastSeen: "2025-09-15T00:00:00.000Z" },
+    },
+    primeHuntCompleted: true,
+    primeHuntLimit: 200,
+    primeHuntBests: {
+      100: {
+        limit: 100,
+        found: 25,
+        mistakes: 0,
+        ms: 50_000,
+        score: 300,
+        at: "2025-09-12T00:00:00.000Z",
+      },
+    },
+    reviewQueue: [
+      {
+        key: "k",
+        exercise,
+        box: 1,
+        due: "2025-09-20T00:00:00.000Z",
+        lapses: 2,
+      },
+    ],
+    history: [
+      {
+        at: "2025-09-10T00:00:00.000Z",
+        exercise,
+        answer: "",
+        correct: true,
+        ms: null,
+      },
+      {
+        at: "2025-09-12T00:00:00.000Z",
+        exercise,
+        answer: "",
+        correct: true,
+        ms: null,
+      },
+    ],
+    xpByDay: { "2025-09-10": 20, "2025-09-12": 30 },
+  });
+  const merged = mergeStats(a, b);
+
+  it("soma contadores e fica com o melhor placar", () => {
+    expect(merged.xp).toBe(150);
+    expect(merged.sessions).toBe(3);
+    expect(merged.correctQuestions).toBe(12);
+    expect(merged.totalQuestions).toBe(15);
+    expect(merged.bestFiveScore).toBe(5);
+    expect(merged.primeHuntCompleted).toBe(true);
+    expect(merged.primeHuntLimit).toBe(200);
+    expect(merged.primeHuntBests[100].score).toBe(300);
+  });
+
+  it("une medalhas e mantém a conquista mais antiga", () => {
+    expect(merged.medals).toEqual(["m1", "m2"]);
+    expect(merged.achievements).toEqual({
+      m1: "2025-09-05T00:00:00.000Z",
+      m2: "2025-09-12T00:00:00.000Z",
+    });
+  });
+
+  it("soma tópicos e guarda a prática mais recente", () => {
+    expect(merged.perTopic.primos).toEqual({
+      correct: 5,
+      wrong: 3,
+      lastSeen: "2025-09-15T00:00:00.000Z",
+    });
+  });
+
+  it("não duplica revisões do mesmo exercício", () => {
+    expect(merged.reviewQueue).toHaveLength(1);
+    expect(merged.reviewQueue[0].box).toBe(1);
+  });
+
+  it("intercala os históricos sem repetir eventos e soma o XP por dia", () => {
+    expect(merged.history.map((e) => e.at)).toEqual([
+      "2025-09-10T00:00:00.000Z",
+      "2025-09-12T00:00:00.000Z",
+      "2025-09-16T00:00:00.000Z",
+    ]);
+    expect(merged.xpByDay).toEqual({ "2025-09-10": 120, "2025-09-12": 30 });
+  });
+
+  it("ignora o mesmo arquivo importado duas vezes", () => {
+    const file = exportProgress(b, { name: "Ana" });
+    const once = mergeStats(a, parseProgressFile(file).stats);
+    const twice = mergeStats(once, parseProgressFile(file).stats);
+    expect(twice).toEqual(once);
+    expect(twice.xp).toBe(150);
+    expect(twice.perTopic.primos.correct).toBe(5);
+  });
+});
+
+describe("summarizeChanges", () => {
+  it("lista só o que muda", () => {
+    const before = createDefaultStats();
+    const after = statsWith({ xp: 5, medals: ["m1"] });
+    expect(summarizeChanges(before, after)).toEqual([
+      { label: "XP", before: "0", after: "5" },
+      { label: "Medalhas", before: "—", after: "m1" },
+    ]);
+  });
+});
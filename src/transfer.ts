@@ -0,0 +1,286 @@
+import { medalTitle } from "./achievements";
+import { rankRuns, type ChallengeRun } from "./challenge";
+import { isBetterRun } from "./primeHunt";
+import { hashSeed } from "./random";
+import {
+  GOAL_DAYS_LIMIT,
+  HISTORY_LIMIT,
+  MERGED_IMPORTS_LIMIT,
+  STATS_VERSION,
+  upgradeStats,
+  type ReviewItem,
+  type Stats,
+  type TopicStats,
+} from "./stats";
+
+// ----------------------------------------------
+// Exportar / importar progresso (arquivo JSON versionado)
+// ----------------------------------------------
+export const EXPORT_FORMAT = "aritmetica-plus/progresso";
+
+export interface ProgressFile {
+  format: typeof EXPORT_FORMAT;
+  version: number; // versão do formato de Stats (STATS_VERSION)
+  exportedAt: string;
+  profile: { name: string; avatar?: string };
+  stats: Stats;
+}
+
+export interface ImportedProgress {
+  stats: Stats;
+  profile: { name: string; avatar?: string };
+  exportedAt: string | null;
+}
+
+export const exportProgress = (
+  stats: Stats,
+  profile: { name: string; avatar?: string },
+  now = new Date().toISOString()
+): string => {
+  const file: ProgressFile = {
+    format: EXPORT_FORMAT,
+    version: STATS_VERSION,
+    exportedAt: now,
+    profile,
+    stats,
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+export const exportFileName = (profileName: string, now = new Date()) => {
+  const slug =
+    profileName
+      .normalize("NFD")
+      .replace(/[\u0300-\u036f]/g, "")
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-|-$/g, "") || "estudante";
+  return `progresso-${slug}-${now.toISOString().slice(0, 10)}.json`;
+};
+
+// Lança Error com mensagem para o usuário quando o arquivo não serve
+export const parseProgressFile = (text: string): ImportedProgress => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error("O arquivo não é um JSON válido.");
+  }
+  const file = (parsed ?? {}) as Partial<Record<keyof ProgressFile, unknown>>;
+  if (file.format !== EXPORT_FORMAT) {
+    throw new Error("Este arquivo não é um progresso exportado pelo app.");
+  }
+  if (!Number.isInteger(file.version) || (file.version as number) < 1) {
+    throw new Error("Versão do arquivo ausente ou inválida.");
+  }
+  if ((file.version as number) > STATS_VERSION) {
+    throw new Error(
+      "Arquivo criado por uma versão mais nova do app. Atualize a página."
+    );
+  }
+  const rawProfile = (file.profile ?? {}) as Record<string, unknown>;
+  return {
+    stats: upgradeStats(file.stats, file.version as number),
+    profile: {
+      name: typeof rawProfile.name === "string" ? rawProfile.name : "",
+      ...(typeof rawProfile.avatar === "string"
+        ? { avatar: rawProfile.avatar }
+        : {}),
+    },
+    exportedAt: typeof file.exportedAt === "string" ? file.exportedAt : null,
+  };
+};
+
+// ----------------------------------------------
+// Mesclar: soma contadores, une medalhas, mantém as datas mais antigas
+// ----------------------------------------------
+const laterDate = (a?: string, b?: string) =>
+  !a ? b : !b ? a : Date.parse(a) >= Date.parse(b) ? a : b;
+
+const mergeTopic = (a?: TopicStats, b?: TopicStats): TopicStats => {
+  const topic: TopicStats = {
+    correct: (a?.correct ?? 0) + (b?.correct ?? 0),
+    wrong: (a?.wrong ?? 0) + (b?.wrong ?? 0),
+  };
+  const lastSeen = laterDate(a?.lastSeen, b?.lastSeen);
+  if (lastSeen) topic.lastSeen = lastSeen;
+  return topic;
+};
+
+// Impressão do arquivo (sem a própria lista de mesclados, que muda a cada
+// mesclagem)
+export const statsFingerprint = (stats: Stats) =>
+  hashSeed(JSON.stringify({ ...stats, mergedImports: [] })).toString(36);
+
+export const mergeStats = (current: Stats, incoming: Stats): Stats => {
+  // O mesmo arquivo importado de novo: os contadores já foram somados
+  const fingerprint = statsFingerprint(incoming);
+  if (current.mergedImports.includes(fingerprint)) return current;
+
+  const achievements = { ...current.achievements };
+  for (const [id, date] of Object.entries(incoming.achievements)) {
+    const mine = achievements[id];
+    if (!mine || Date.parse(date) < Date.parse(mine)) achievements[id] = date;
+  }
+
+  const perTopic: Record<string, TopicStats> = {};
+  for (const t of new Set([
+    ...Object.keys(current.perTopic),
+    ...Object.keys(incoming.perTopic),
+  ])) {
+    perTopic[t] = mergeTopic(current.perTopic[t], incoming.perTopic[t]);
+  }
+
+  // Mesmo exercício nos dois lados: fica a revisão que vence primeiro
+  const reviews = new Map<string, ReviewItem>();
+  for (const item of [...current.reviewQueue, ...incoming.reviewQueue]) {
+    const other = reviews.get(item.key);
+    if (!other || Date.parse(item.due) < Date.parse(other.due)) {
+      reviews.set(item.key, item);
+    }
+  }
+
+  // Histórico: ordem cronológica, sem repetir eventos já importados antes
+  const history = [...current.history];
+  const seen = new Set(
+    current.history.map((e) => `${e.at}|${e.exercise.prompt}`)
+  );
+  for (const e of incoming.history) {
+    if (!seen.has(`${e.at}|${e.exercise.prompt}`)) history.push(e);
+  }
+  history.sort((x, y) => Date.parse(x.at) - Date.parse(y.at));
+
+  const xpByDay = { ...current.xpByDay };
+  for (const [day, xp] of Object.entries(incoming.xpByDay)) {
+    xpByDay[day] = (xpByDay[day] ?? 0) + xp;
+  }
+
+  // Sequência: vale a do aparelho que praticou por último
+  const [newer, older] =
+    (incoming.streak.lastDay ?? "") > (current.streak.lastDay ?? "")
+      ? [incoming.streak, current.streak]
+      : [current.streak, incoming.streak];
+
+  const challengeBests: Record<string, ChallengeRun[]> = {};
+  for (const key of new Set([
+    ...Object.keys(current.challengeBests),
+    ...Object.keys(incoming.challengeBests),
+  ])) {
+    // A mesma partida pode estar nos dois lados (arquivo importado de novo)
+    const runs = new Map<string, ChallengeRun>();
+    for (const run of [
+      ...(current.challengeBests[key] ?? []),
+      ...(incoming.challengeBests[key] ?? []),
+    ]) {
+      runs.set(`${run.at}|${run.score}`, run);
+    }
+    challengeBests[key] = rankRuns([...runs.values()]);
+  }
+
+  const primeHuntBests = { ...current.primeHuntBests };
+  for (const [limit, run] of Object.entries(incoming.primeHuntBests)) {
+    if (isBetterRun(run, primeHuntBests[limit])) primeHuntBests[limit] = run;
+  }
+
+  return {
+    xp: current.xp + incoming.xp,
+    medals: [...new Set([...current.medals, ...incoming.medals])],
+    bestFiveScore: Math.max(current.bestFiveScore, incoming.bestFiveScore),
+    sessions: current.sessions + incoming.sessions,
+    totalQuestions: current.totalQuestions + incoming.totalQuestions,
+    correctQuestions: current.correctQuestions + incoming.correctQuestions,
+    perTopic,
+    achievements,
+    primeHuntCompleted:
+      current.primeHuntCompleted || incoming.primeHuntCompleted,
+    primeHuntLimit: Math.max(current.primeHuntLimit, incoming.primeHuntLimit),
+    primeHuntBests,
+    reviewQueue: [...reviews.values()],
+    history: history.slice(-HISTORY_LIMIT),
+    xpByDay,
+    streak: { ...newer, best: Math.max(newer.best, older.best) },
+    goalDays: [...new Set([...current.goalDays, ...incoming.goalDays])]
+      .sort()
+      .slice(-GOAL_DAYS_LIMIT),
+    challengeBests,
+    mergedImports: [
+      ...new Set([
+        ...current.mergedImports,
+        ...incoming.mergedImports,
+        fingerprint,
+      ]),
+    ].slice(-MERGED_IMPORTS_LIMIT),
+  };
+};
+
+// ----------------------------------------------
+// Prévia: o que muda se o resultado substituir o progresso atual
+// ----------------------------------------------
+export interface StatsChange {
+  label: string;
+  before: string;
+  after: string;
+}
+
+const ratio = (t?: TopicStats) =>
+  `${t?.correct ?? 0}/${(t?.correct ?? 0) + (t?.wrong ?? 0)}`;
+
+export const summarizeChanges = (
+  before: Stats,
+  after: Stats
+): StatsChange[] => {
+  const rows: StatsChange[] = [
+    { label: "XP", before: `${before.xp}`, after: `${after.xp}` },
+    {
+      label: "Sessões",
+      before: `${before.sessions}`,
+      after: `${after.sessions}`,
+    },
+    {
+      label: "Questões certas",
+      before: `${before.correctQuestions}/${before.totalQuestions}`,
+      after: `${after.correctQuestions}/${after.totalQuestions}`,
+    },
+    {
+      label: "Melhor placar 5/5",
+      before: `${before.bestFiveScore}`,
+      after: `${after.bestFiveScore}`,
+    },
+    {
+      label: "Caça aos primos 0–100 concluída",
+      before: before.primeHuntCompleted ? "Sim" : "Não",
+      after: after.primeHuntCompleted ? "Sim" : "Não",
+    },
+    {
+      label: "Maior faixa do Jogo dos Primos",
+      before: before.primeHuntLimit ? `0–${before.primeHuntLimit}` : "—",
+      after: after.primeHuntLimit ? `0–${after.primeHuntLimit}` : "—",
+    },
+    {
+      label: "Medalhas",
+      before: before.medals.map(medalTitle).join(", ") || "—",
+      after: after.medals.map(medalTitle).join(", ") || "—",
+    },
+    {
+      label: "Respostas no histórico",
+      before: `${before.history.length}`,
+      after: `${after.history.length}`,
+    },
+    {
+      label: "Revisões pendentes",
+      before: `${before.reviewQueue.length}`,
+      after: `${after.reviewQueue.length}`,
+    },
+  ];
+  for (const t of new Set([
+    ...Object.keys(before.perTopic),
+    ...Object.keys(after.perTopic),
+  ])) {
+    rows.push({
+      label: `Acertos em ${t}`,
+      before: ratio(before.perTopic[t]),
+      after: ratio(after.perTopic[t]),
+    });
+  }
+  return rows.filter((r) => r.before !== r.after);
+};